@@ -0,0 +1,895 @@
+import {
+  IIssuePlan,
+  IIssueResult,
+  checkCondition,
+  describePlan,
+  findPostedComments,
+  getDirectives,
+  getIssueReferences,
+  getMatchText,
+  getReferencedTeams,
+  isChanged,
+  isLabelReferenced,
+  issueRuleAnalyze,
+  pushRuleAnalyze
+} from '../src/analyze'
+import { getModeEvent, parseAllRules } from '../src/config'
+import { getEventInfo } from '../src/event'
+import { FileStatus, IEventInfo, ModeEvent } from '../src/types'
+
+const repo = { owner: 'owner', repo: 'repo' }
+
+function pushEvent(messages: string[], ref = 'refs/heads/main'): IEventInfo {
+  return getEventInfo('push', {
+    ref,
+    pusher: { name: 'alice' },
+    repository: { owner: { login: 'owner' }, name: 'repo' },
+    commits: messages.map((message, index) => ({
+      id: `${index}`.repeat(40),
+      message,
+      url: `https://github.com/owner/repo/commit/${index}`,
+      author: { name: 'Alice', username: 'alice' }
+    }))
+  })
+}
+
+function references(
+  messages: string[],
+  push: unknown = null,
+  ref?: string
+): string[] {
+  return getIssueReferences(
+    pushEvent(messages, ref),
+    parseAllRules({ push }, 1).push,
+    repo
+  ).map(
+    x =>
+      `${x.owner}/${x.repo}#${x.issue_number} ${x.keyword}` +
+      (x.skipped ? ` (${x.skipped})` : '')
+  )
+}
+
+describe('getIssueReferences', () => {
+  it('finds the closing keywords of GitHub', () => {
+    expect(
+      references([
+        'Fix the parser\n\nfixes #1, Closes: #2 and resolved #3',
+        'close #4 fix #5 resolve #6 closed #7 fixed #8 resolves #9'
+      ])
+    ).toEqual([
+      'owner/repo#1 fixes',
+      'owner/repo#2 Closes',
+      'owner/repo#3 resolved',
+      'owner/repo#4 close',
+      'owner/repo#5 fix',
+      'owner/repo#6 resolve',
+      'owner/repo#7 closed',
+      'owner/repo#8 fixed',
+      'owner/repo#9 resolves'
+    ])
+  })
+
+  it('ignores mentions without a keyword and partial words', () => {
+    expect(references(['see #1, prefixes #2, #3 fixes nothing'])).toEqual([])
+  })
+
+  it('reports each issue once, by its first commit', () => {
+    const found = getIssueReferences(
+      pushEvent(['fixes #1', 'closes #1', 'fixes OWNER/Repo#1']),
+      parseAllRules({}, 1).push,
+      repo
+    )
+    expect(found).toHaveLength(1)
+    expect(found[0].commit.sha).toBe('0'.repeat(40))
+  })
+
+  it('parses references to other repositories and issue URLs', () => {
+    expect(
+      references(
+        [
+          'fixes other/project#12',
+          'closes https://github.com/owner/repo/issues/13',
+          'resolves https://github.com/other/project/issues/14'
+        ],
+        { 'cross-repository': true }
+      )
+    ).toEqual([
+      'other/project#12 fixes',
+      'owner/repo#13 closes',
+      'other/project#14 resolves'
+    ])
+  })
+
+  it('skips references to other repositories by default', () => {
+    expect(references(['fixes other/project#12, fixes #13'])).toEqual([
+      'other/project#12 fixes (cross-repository references are disabled)',
+      'owner/repo#13 fixes'
+    ])
+  })
+
+  it('uses the configured keywords only', () => {
+    expect(
+      references(['fixes #1, implements #2'], { keywords: ['implements'] })
+    ).toEqual(['owner/repo#2 implements'])
+  })
+
+  it('honors a reference skipped by an earlier commit', () => {
+    const eventInfo = getEventInfo('push', {
+      ref: 'refs/heads/main',
+      pusher: { name: 'maint' },
+      commits: ['outsider', 'maint'].map((username, index) => ({
+        id: `${index}`.repeat(40),
+        message: 'fixes #5',
+        author: { name: username, username }
+      }))
+    })
+    const { push } = parseAllRules(
+      { push: { when: { 'commit-author': ['maint'] } } },
+      1
+    )
+    const found = getIssueReferences(eventInfo, push, repo)
+    expect(found).toHaveLength(1)
+    expect(found[0].skipped).toBeUndefined()
+    expect(found[0].commit.author).toBe('maint')
+    expect(pushRuleAnalyze(found, push, eventInfo, repo)).toHaveLength(1)
+  })
+
+  it('skips the pushes to other branches', () => {
+    expect(
+      references(
+        ['fixes #1'],
+        { branches: ['main', 'release/*'] },
+        'refs/heads/dev'
+      )
+    ).toEqual(['owner/repo#1 fixes (`dev` is not one of the branches)'])
+    expect(
+      references(
+        ['fixes #1'],
+        { branches: ['main', 'release/*'] },
+        'refs/heads/release/1.0'
+      )
+    ).toEqual(['owner/repo#1 fixes'])
+  })
+})
+
+// The bodies the `update` comment rules put into the issue, on an `issues`
+// event with the given body.
+function updateItems(config: unknown, body: string): string[] {
+  const { labels, comments, actions, checks } = parseAllRules(config, 1)
+  const eventInfo = getEventInfo('issues', {
+    issue: { number: 1, title: 'title', body, user: { login: 'alice' } }
+  })
+  return issueRuleAnalyze(
+    labels,
+    comments,
+    actions,
+    checks,
+    eventInfo,
+    'issues',
+    new Set(),
+    0,
+    1
+  ).updateItems
+}
+
+// An issue #1 opened by alice with the given body.
+function issueEvent(body: string, association = 'NONE'): IEventInfo {
+  return getEventInfo('issues', {
+    issue: {
+      number: 1,
+      title: 'title',
+      body,
+      user: { login: 'alice' },
+      author_association: association
+    }
+  })
+}
+
+// The labels the label rules add to an issue without labels.
+function addedLabels(labels: unknown[], eventInfo: IEventInfo): string[] {
+  const config = parseAllRules({ labels }, 1)
+  return issueRuleAnalyze(
+    config.labels,
+    [],
+    [],
+    [],
+    eventInfo,
+    eventInfo.event_name as ModeEvent,
+    new Set(),
+    0,
+    1
+  ).addLabels
+}
+
+describe('conditions', () => {
+  const crash = {
+    name: 'crash',
+    content: 'crash',
+    when: {
+      all: [
+        { any: ['[Cc]rash', '[Pp]anic'] },
+        { not: { author_association: 'MEMBER', regex: '[Ee]xpected' } }
+      ]
+    }
+  }
+
+  it('matches trees of all, any and not', () => {
+    expect(addedLabels([crash], issueEvent('It panics'))).toEqual(['crash'])
+    expect(addedLabels([crash], issueEvent('Crash, expected?'))).toEqual([
+      'crash'
+    ])
+    expect(
+      addedLabels([crash], issueEvent('Crash, expected', 'MEMBER'))
+    ).toEqual([])
+    expect(addedLabels([crash], issueEvent('It works'))).toEqual([])
+  })
+
+  it('keeps regexes as a shorthand for all of them', () => {
+    const rule = {
+      name: 'windows',
+      content: 'windows',
+      regexes: ['crash', 'Windows']
+    }
+    expect(addedLabels([rule], issueEvent('crash on Windows'))).toEqual([
+      'windows'
+    ])
+    expect(addedLabels([rule], issueEvent('crash on Linux'))).toEqual([])
+    expect(
+      addedLabels(
+        [{ ...rule, when: { not: 'Linux' } }],
+        issueEvent('crash on Windows')
+      )
+    ).toEqual(['windows'])
+    expect(
+      addedLabels(
+        [{ ...rule, when: { not: 'Linux' } }],
+        issueEvent('crash on Windows, not Linux')
+      )
+    ).toEqual([])
+  })
+
+  it('keeps the matches of the first branch of any, none of not', () => {
+    const check = (when: unknown, body: string): unknown => {
+      const [rule] = parseAllRules({ labels: [{ name: 'x', when }] }, 1).labels
+      const eventInfo = issueEvent(body)
+      const matches = checkCondition(rule.when!, {
+        body,
+        author_association: eventInfo.author_association,
+        files: [],
+        fields: {},
+        authors: eventInfo.authors,
+        team_members: {}
+      })
+      return matches && matches.map(x => x[0])
+    }
+    expect(check({ any: ['crash', 'panic'] }, 'panic, crash')).toEqual([
+      'crash'
+    ])
+    expect(check(['crash', 'panic'], 'panic, crash')).toEqual([
+      'crash',
+      'panic'
+    ])
+    expect(check({ regex: 'panic', not: 'crash' }, 'panic')).toEqual(['panic'])
+    expect(check({ not: 'crash' }, 'panic, crash')).toBe(false)
+  })
+})
+
+describe('targets', () => {
+  const rule = (targets: unknown, regexes: string): unknown => ({
+    name: 'matched',
+    content: 'matched',
+    regexes,
+    ...(targets === undefined ? {} : { targets })
+  })
+
+  it('matches the body unless told otherwise', () => {
+    const eventInfo = issueEvent('It crashes')
+    eventInfo.title = '[WIP] Crash'
+    expect(addedLabels([rule(undefined, 'WIP')], eventInfo)).toEqual([])
+    expect(addedLabels([rule('title', 'WIP')], eventInfo)).toEqual(['matched'])
+    expect(addedLabels([rule(['body'], 'WIP')], eventInfo)).toEqual([])
+  })
+
+  it('joins the targets by blank lines', () => {
+    const eventInfo = issueEvent('It crashes')
+    expect(getMatchText(eventInfo, ['title', 'body'])).toBe(
+      'title\n\nIt crashes'
+    )
+    expect(
+      addedLabels([rule(['title', 'body'], '/^title\\n\\nIt/')], eventInfo)
+    ).toEqual(['matched'])
+  })
+
+  it('tells the comment from the issue body on comment events', () => {
+    const eventInfo = getEventInfo('issue_comment', {
+      issue: { number: 1, body: 'It crashes', user: { login: 'alice' } },
+      comment: { id: 2, body: 'Same here', user: { login: 'bob' } }
+    })
+    expect(addedLabels([rule(undefined, 'crash')], eventInfo)).toEqual([])
+    expect(addedLabels([rule('issue_body', 'crash')], eventInfo)).toEqual([
+      'matched'
+    ])
+    expect(addedLabels([rule('comment', 'Same')], eventInfo)).toEqual([
+      'matched'
+    ])
+  })
+
+  it('matches the branches and the commits of pull requests', () => {
+    const eventInfo = getEventInfo('pull_request', {
+      pull_request: {
+        number: 1,
+        body: '',
+        user: { login: 'dependabot[bot]' },
+        head: { ref: 'dependabot/npm/yaml' },
+        base: { ref: 'release/2.0' }
+      }
+    })
+    eventInfo.commit_messages = ['chore: bump yaml', 'fix: lockfile']
+    expect(
+      addedLabels([rule('head_branch', '^dependabot/')], eventInfo)
+    ).toEqual(['matched'])
+    expect(addedLabels([rule('base_branch', '^release/')], eventInfo)).toEqual([
+      'matched'
+    ])
+    expect(addedLabels([rule('commits', '/^fix:/m')], eventInfo)).toEqual([
+      'matched'
+    ])
+  })
+})
+
+describe('changed files', () => {
+  // a pull request changing the files, `status filename` or `renamed new old`
+  function pullRequestEvent(files: string[]): IEventInfo {
+    const eventInfo = getEventInfo('pull_request', {
+      pull_request: { number: 1, body: '', user: { login: 'alice' } }
+    })
+    eventInfo.changed_files = files.map(file => {
+      const [status, filename, previous_filename] = file.split(' ')
+      return { filename, status: status as FileStatus, previous_filename }
+    })
+    return eventInfo
+  }
+  const rule = (files: unknown): unknown => ({
+    name: 'matched',
+    content: 'matched',
+    files
+  })
+
+  it('matches some changed file against some glob', () => {
+    const eventInfo = pullRequestEvent([
+      'modified src/Copilot/Task.cs',
+      'added docs/README.md'
+    ])
+    expect(addedLabels([rule('src/Copilot/**')], eventInfo)).toEqual([
+      'matched'
+    ])
+    expect(addedLabels([rule(['src/Depot/**', '*.md'])], eventInfo)).toEqual([])
+    // dotfiles are matched as well
+    expect(
+      addedLabels(
+        [rule('.github/**')],
+        pullRequestEvent(['modified .github/ci.yml'])
+      )
+    ).toEqual(['matched'])
+  })
+
+  it('matches every changed file with all', () => {
+    const docs = { all: ['**/*.md', 'docs/**'] }
+    expect(
+      addedLabels(
+        [rule(docs)],
+        pullRequestEvent(['modified README.md', 'added docs/a.png'])
+      )
+    ).toEqual(['matched'])
+    expect(
+      addedLabels(
+        [rule(docs)],
+        pullRequestEvent(['modified README.md', 'modified src/a.ts'])
+      )
+    ).toEqual([])
+    // no changed file does not match all
+    expect(addedLabels([rule(docs)], pullRequestEvent([]))).toEqual([])
+  })
+
+  it('only considers the files of the statuses', () => {
+    const tests = { any: 'tests/**', status: 'added' }
+    expect(
+      addedLabels([rule(tests)], pullRequestEvent(['added tests/a.ts']))
+    ).toEqual(['matched'])
+    expect(
+      addedLabels([rule(tests)], pullRequestEvent(['modified tests/a.ts']))
+    ).toEqual([])
+  })
+
+  it('matches renamed files by their old name as well', () => {
+    const eventInfo = pullRequestEvent(['renamed src/Depot/a.ts lib/a.ts'])
+    expect(addedLabels([rule('src/Depot/**')], eventInfo)).toEqual(['matched'])
+    expect(addedLabels([rule('lib/**')], eventInfo)).toEqual(['matched'])
+  })
+
+  it('combines with the other conditions in when', () => {
+    const labels = [
+      {
+        name: 'matched',
+        content: 'matched',
+        when: { any: [{ files: 'src/**' }, 'refactor'] }
+      }
+    ]
+    expect(addedLabels(labels, pullRequestEvent(['added src/a.ts']))).toEqual([
+      'matched'
+    ])
+    expect(addedLabels(labels, pullRequestEvent(['added docs/a.md']))).toEqual(
+      []
+    )
+  })
+})
+
+describe('author conditions', () => {
+  // a comment of `commenter` on an issue of `author`, as `login association`
+  function commentEvent(
+    commenter: string,
+    author = 'alice NONE',
+    type = 'User'
+  ): IEventInfo {
+    const [login, association] = commenter.split(' ')
+    const [issueLogin, issueAssociation] = author.split(' ')
+    return getEventInfo('issue_comment', {
+      issue: {
+        number: 1,
+        body: 'It crashes',
+        user: { login: issueLogin },
+        author_association: issueAssociation
+      },
+      comment: {
+        id: 2,
+        body: '/triage',
+        user: { login, type },
+        author_association: association ?? 'NONE'
+      }
+    })
+  }
+  const matches = (when: unknown, eventInfo: IEventInfo): boolean =>
+    addedLabels([{ name: 'matched', content: 'matched', when }], eventInfo)
+      .length > 0
+
+  it('matches logins and globs, whatever their case', () => {
+    const eventInfo = commentEvent('Dependabot[bot]')
+    expect(matches({ author: 'dependabot[bot]' }, eventInfo)).toBe(true)
+    expect(matches({ author: ['alice', 'bob'] }, eventInfo)).toBe(false)
+    expect(matches({ author: { login: 'dependabot*' } }, eventInfo)).toBe(true)
+    expect(
+      matches({ author: { 'not-login': ['renovate*', 'depend*'] } }, eventInfo)
+    ).toBe(false)
+    expect(matches({ author: { 'not-login': 'alice' } }, eventInfo)).toBe(true)
+  })
+
+  it('tells the commenter from the issue author', () => {
+    const eventInfo = commentEvent('bob MEMBER', 'alice FIRST_TIME_CONTRIBUTOR')
+    expect(matches({ author: 'bob', 'issue-author': 'alice' }, eventInfo)).toBe(
+      true
+    )
+    expect(matches({ author: 'alice' }, eventInfo)).toBe(false)
+    expect(matches({ 'issue-author': { 'first-time': true } }, eventInfo)).toBe(
+      true
+    )
+    expect(matches({ author: { 'first-time': true } }, eventInfo)).toBe(false)
+    expect(
+      matches({ author: { association: 'MEMBER|OWNER' } }, eventInfo)
+    ).toBe(true)
+    // an issue event has no commit author
+    expect(matches({ 'commit-author': 'alice' }, eventInfo)).toBe(false)
+  })
+
+  it('finds bots by their login or their type', () => {
+    expect(
+      matches({ author: { bot: true } }, commentEvent('renovate[bot]'))
+    ).toBe(true)
+    expect(
+      matches(
+        { author: { bot: true } },
+        commentEvent('ci-user', undefined, 'Bot')
+      )
+    ).toBe(true)
+    expect(matches({ author: { bot: true } }, commentEvent('bob'))).toBe(false)
+    expect(
+      matches({ not: { 'issue-author': { bot: true } } }, commentEvent('bob'))
+    ).toBe(true)
+  })
+
+  it('matches the members of teams', () => {
+    const eventInfo = commentEvent('Bob')
+    const when = { author: { team: ['org/core', 'org/maintainers'] } }
+    expect(matches(when, eventInfo)).toBe(false)
+    eventInfo.team_members = { 'org/core': [], 'org/maintainers': ['bob'] }
+    expect(matches(when, eventInfo)).toBe(true)
+    expect(
+      getReferencedTeams(parseAllRules({ labels: [{ name: 'x', when }] }, 1))
+    ).toEqual(['org/core', 'org/maintainers'])
+  })
+})
+
+describe('update comment rules', () => {
+  const rule = (mode: unknown, content = 'Thanks!'): unknown => ({
+    comments: [{ name: 'note', content, regexes: 'crash', mode }]
+  })
+
+  it.each(['append', 'prepend', 'replace-section'])(
+    'leave the body alone once updated (%s)',
+    mode => {
+      const body =
+        mode === 'replace-section'
+          ? 'it crashed\n\n<!-- issue-checker:begin note -->\n<!-- issue-checker:end note -->'
+          : 'it crashed'
+      const [updated] = updateItems(rule(mode), body)
+      expect(updated).toContain(
+        '<!-- issue-checker:begin note -->\nThanks!\n<!-- issue-checker:end note -->'
+      )
+      expect(updateItems(rule(mode), updated)).toEqual([])
+    }
+  )
+
+  it('appends and prepends sections', () => {
+    expect(updateItems(rule('append'), 'it crashed')).toEqual([
+      'it crashed\n\n<!-- issue-checker:begin note -->\nThanks!\n<!-- issue-checker:end note -->'
+    ])
+    expect(updateItems(rule('prepend'), 'it crashed')).toEqual([
+      '<!-- issue-checker:begin note -->\nThanks!\n<!-- issue-checker:end note -->\n\nit crashed'
+    ])
+  })
+
+  it('replaces the section of an earlier run', () => {
+    const [first] = updateItems(rule('append', 'Seen ${labels}'), 'it crashed')
+    const [second] = updateItems(rule('append', 'Seen again'), first)
+    expect(second).toBe(
+      'it crashed\n\n<!-- issue-checker:begin note -->\nSeen again\n<!-- issue-checker:end note -->'
+    )
+    expect(second.match(/issue-checker:begin/g)).toHaveLength(1)
+  })
+
+  it('does not add a missing section with replace-section', () => {
+    expect(updateItems(rule('replace-section'), 'it crashed')).toEqual([])
+  })
+
+  it('replaces the body, once', () => {
+    const config = rule({ type: 'update' }, 'crash reported')
+    expect(updateItems(config, 'it crashed')).toEqual(['crash reported'])
+    expect(updateItems(config, 'crash reported')).toEqual([])
+  })
+
+  it('applies the rules one after another', () => {
+    const config = {
+      comments: [
+        { name: 'a', content: 'A', regexes: 'crash', mode: 'append' },
+        { name: 'b', content: 'B', regexes: 'crash', mode: 'append' }
+      ]
+    }
+    const [updated] = updateItems(config, 'it crashed')
+    expect(updated).toMatch(
+      /begin a -->\nA\n.*end a -->\n\n.*begin b -->\nB\n/s
+    )
+    expect(updateItems(config, updated)).toEqual([])
+  })
+})
+
+describe('findPostedComments', () => {
+  const marker = '<!-- issue-checker:comment thanks -->'
+  const comments = [
+    { id: 1, node_id: 'a', body: `Thanks!\n\n${marker}`, author: 'alice' },
+    { id: 2, node_id: 'b', body: 'Thanks!', author: 'github-actions[bot]' },
+    {
+      id: 3,
+      node_id: 'c',
+      body: `Thanks!\n\n${marker}`,
+      author: 'github-actions[bot]'
+    },
+    { id: 4, node_id: 'd', body: marker, author: '' }
+  ]
+
+  it('leaves alone the comments of users containing the marker', () => {
+    expect(
+      findPostedComments(comments, marker, 'github-actions[bot]').map(x => x.id)
+    ).toEqual([3])
+    expect(
+      findPostedComments(comments.slice(0, 2), marker, 'github-actions[bot]')
+    ).toEqual([])
+  })
+
+  it('matches the bots of the GraphQL API and other accounts', () => {
+    const discussion = comments.map(x => ({
+      ...x,
+      author: x.author.replace('[bot]', '')
+    }))
+    expect(
+      findPostedComments(discussion, marker, 'github-actions[bot]').map(
+        x => x.id
+      )
+    ).toEqual([3])
+    expect(
+      findPostedComments(comments, marker, 'Alice').map(x => x.id)
+    ).toEqual([1])
+  })
+})
+
+describe('pushRuleAnalyze', () => {
+  // the default comment on the issue referenced by a commit of this author
+  function pushComment(author: { name: string; username?: string }): string {
+    const eventInfo = getEventInfo('push', {
+      ref: 'refs/heads/main',
+      pusher: { name: 'alice' },
+      compare: 'https://github.com/owner/repo/compare/a...b',
+      commits: [
+        {
+          id: 'a'.repeat(40),
+          message: 'Fix the parser\n\nfixes #1',
+          url: 'https://github.com/owner/repo/commit/a',
+          author
+        }
+      ]
+    })
+    const { push } = parseAllRules({ push: { comment: true } }, 1)
+    const references = getIssueReferences(eventInfo, push, repo)
+    const [plan] = pushRuleAnalyze(references, push, eventInfo, repo)
+    return plan.addComments[0].body
+  }
+
+  it('mentions the login of the commit author', () => {
+    expect(pushComment({ name: 'John Smith', username: 'jsmith' })).toMatch(
+      /^Referenced by https:\/\/github\.com\/owner\/repo\/commit\/a on `main` by @jsmith:\n\n> Fix the parser\n/
+    )
+  })
+
+  it('does not take the name of the commit author for a login', () => {
+    const body = pushComment({ name: 'John Smith' })
+    expect(body).toContain('by John Smith:')
+    expect(body).not.toContain('@')
+  })
+})
+
+describe('getDirectives', () => {
+  function directives(association: string): unknown {
+    const eventInfo = getEventInfo('issue_comment', {
+      issue: {
+        number: 1,
+        body: 'it crashed',
+        user: { login: 'alice' },
+        author_association: 'NONE'
+      },
+      comment: {
+        id: 2,
+        body: '<!-- remove: triage -->',
+        user: { login: 'bob' },
+        author_association: association
+      }
+    })
+    return getDirectives(
+      eventInfo,
+      parseAllRules({ directives: true }, 1).directives
+    )
+  }
+
+  it('honors the directives of maintainers', () => {
+    expect(directives('MEMBER')).toEqual({ skip: [], remove: ['triage'] })
+  })
+
+  it('ignores the directives of other users by default', () => {
+    expect(directives('NONE')).toEqual({ skip: [], remove: [] })
+    expect(directives('CONTRIBUTOR')).toEqual({ skip: [], remove: [] })
+  })
+})
+
+describe('getEventInfo', () => {
+  it('leaves the association of the pusher to be loaded', () => {
+    const eventInfo = pushEvent(['fixes #1'])
+    expect(eventInfo.author).toBe('alice')
+    expect(eventInfo.author_association).toBe('')
+    expect(eventInfo.authors.author?.association).toBe('')
+  })
+
+  it('dates a push by its head commit', () => {
+    const eventInfo = getEventInfo('push', {
+      ref: 'refs/heads/main',
+      pusher: { name: 'alice' },
+      commits: [],
+      head_commit: { timestamp: '2024-05-01T12:00:00+02:00' }
+    })
+    expect(eventInfo.created_at).toBe('2024-05-01T12:00:00+02:00')
+    expect(
+      getEventInfo('push', { ref: 'refs/heads/old', head_commit: null })
+        .created_at
+    ).toBe('')
+  })
+})
+
+describe('discussions and reviews', () => {
+  const discussion = {
+    number: 1,
+    node_id: 'D_1',
+    title: 'How to build?',
+    body: 'It fails to build',
+    user: { login: 'alice' },
+    author_association: 'NONE'
+  }
+  const pull_request = {
+    number: 2,
+    body: 'Fix the build',
+    user: { login: 'alice' },
+    author_association: 'CONTRIBUTOR',
+    head: { ref: 'fix-build' },
+    base: { ref: 'main' }
+  }
+
+  it('loads discussions and their comments', () => {
+    const eventInfo = getEventInfo('discussion', { discussion })
+    expect(eventInfo.discussion_id).toBe('D_1')
+    expect(eventInfo.body).toBe('It fails to build')
+    expect(eventInfo.is_pull_request).toBe(false)
+
+    const commentInfo = getEventInfo('discussion_comment', {
+      discussion,
+      comment: {
+        id: 3,
+        node_id: 'DC_3',
+        body: 'Same here',
+        user: { login: 'bob' },
+        author_association: 'MEMBER'
+      }
+    })
+    expect(commentInfo).toMatchObject({
+      issue_number: 1,
+      discussion_id: 'D_1',
+      comment_id: 3,
+      comment_node_id: 'DC_3',
+      body: 'Same here',
+      issue_body: 'It fails to build',
+      title: 'How to build?',
+      is_pull_request: false,
+      author: 'bob',
+      author_association: 'MEMBER'
+    })
+    expect(commentInfo.authors.issue_author?.login).toBe('alice')
+  })
+
+  it('takes the review for the comment of pull_request_review', () => {
+    const eventInfo = getEventInfo('pull_request_review', {
+      pull_request,
+      review: {
+        id: 4,
+        body: 'LGTM',
+        user: { login: 'bob' },
+        author_association: 'MEMBER',
+        submitted_at: '2024-02-01T00:00:00Z'
+      }
+    })
+    expect(eventInfo).toMatchObject({
+      issue_number: 2,
+      comment_id: 4,
+      body: 'LGTM',
+      issue_body: 'Fix the build',
+      head_branch: 'fix-build',
+      base_branch: 'main',
+      is_pull_request: true,
+      created_at: '2024-02-01T00:00:00Z'
+    })
+    expect(eventInfo.discussion_id).toBeUndefined()
+
+    const commentInfo = getEventInfo('pull_request_review_comment', {
+      pull_request,
+      comment: { id: 5, body: 'Typo', user: { login: 'bob' } }
+    })
+    expect(commentInfo).toMatchObject({
+      issue_number: 2,
+      comment_id: 5,
+      comment_body: 'Typo',
+      is_pull_request: true
+    })
+  })
+
+  it('lets modes name the events', () => {
+    const labels = [
+      {
+        name: 'support',
+        content: 'support',
+        regexes: 'build',
+        mode: { discussion: ['add'] }
+      }
+    ]
+    expect(
+      addedLabels(labels, getEventInfo('discussion', { discussion }))
+    ).toEqual(['support'])
+    expect(addedLabels(labels, issueEvent('It fails to build'))).toEqual([])
+    expect(getModeEvent('pull_request_review_comment')).toBe(
+      'pull_request_review_comment'
+    )
+    expect(getModeEvent('workflow_run')).toBeUndefined()
+  })
+})
+
+describe('isLabelReferenced', () => {
+  const config = parseAllRules(
+    {
+      'label-definitions': [{ name: 'type: bug', aliases: ['bug'] }],
+      labels: [
+        { name: 'version', content: 'version: ${field.Version}', regexes: '.' }
+      ],
+      checks: [{ name: 'form', requirements: [{ heading: 'Version' }] }],
+      push: { 'add-labels': ['fixed'], 'remove-labels': ['wontfix'] }
+    },
+    1
+  )
+
+  it('finds the labels of the rules, checks, push and definitions', () => {
+    for (const label of [
+      'Type: Bug',
+      'bug',
+      'needs-info',
+      'fixed',
+      'wontfix'
+    ]) {
+      expect(isLabelReferenced(config, label)).toBe(true)
+    }
+    expect(isLabelReferenced(config, 'stale')).toBe(false)
+  })
+
+  it('matches the labels a template renders to', () => {
+    expect(isLabelReferenced(config, 'version: 2.0')).toBe(true)
+    expect(isLabelReferenced(config, 'release: 2.0')).toBe(false)
+  })
+})
+
+describe('describePlan and isChanged', () => {
+  const plan: IIssuePlan = {
+    issue_number: 1,
+    matchedRules: ['bug'],
+    addLabels: ['bug'],
+    removeLabels: ['triage'],
+    addComments: [{ body: 'Thanks', marker: 'm', existing: 'keep' }],
+    hideComments: [{ marker: 'old', action: 'minimize' }],
+    updateItems: ['body'],
+    addAssignees: ['alice'],
+    requestReviewers: [],
+    milestone: '2.0',
+    state: 'closed',
+    draft: false
+  }
+  const result = (changes: Partial<IIssueResult>): IIssueResult => ({
+    issue: '#1',
+    plan,
+    added_labels: [],
+    removed_labels: [],
+    created_comments: [],
+    updated_comments: [],
+    hidden_comments: [],
+    updated_items: [],
+    actions: { addAssignees: [], requestReviewers: [] },
+    ...changes
+  })
+
+  it('describes each change of the plan', () => {
+    expect(describePlan(plan)).toEqual([
+      'add labels bug',
+      'remove labels triage',
+      'post 1 comments unless posted earlier',
+      'hide the comments of 1 rules if any',
+      'update the body',
+      'assign alice',
+      'set milestone 2.0',
+      'set state closed',
+      'mark ready for review'
+    ])
+  })
+
+  it('counts only the changes made', () => {
+    // the comments were posted and hidden earlier, the actions failed
+    expect(isChanged(result({}))).toBe(false)
+    expect(isChanged(result({ added_labels: ['bug'] }))).toBe(true)
+    expect(isChanged(result({ hidden_comments: ['old'] }))).toBe(true)
+    expect(isChanged(result({ updated_items: ['body'] }))).toBe(true)
+    expect(
+      isChanged(
+        result({
+          actions: { addAssignees: [], requestReviewers: [], lock: true }
+        })
+      )
+    ).toBe(true)
+  })
+})
@@ -0,0 +1,492 @@
+import {
+  ConfigError,
+  IConfigSource,
+  findChangedConfigFiles,
+  loadConfig
+} from '../src/config'
+
+// Load the configuration of `files` by their paths, `.github/issue-checker.yml`
+// being the root one.
+async function load(
+  files: { [path: string]: string } | string,
+  syncLabels = 1
+): Promise<ReturnType<typeof loadConfig>> {
+  const contents =
+    typeof files === 'string' ? { '.github/issue-checker.yml': files } : files
+  return loadConfig(
+    { path: '.github/issue-checker.yml' },
+    async (source: IConfigSource) => {
+      if (!(source.path in contents)) throw Error('not found')
+      return contents[source.path]
+    },
+    syncLabels
+  )
+}
+
+async function loadError(
+  files: { [path: string]: string } | string
+): Promise<ConfigError> {
+  try {
+    await load(files)
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError)
+    return error as ConfigError
+  }
+  throw Error('expected a ConfigError')
+}
+
+describe('loadConfig', () => {
+  it('fills in the defaults', async () => {
+    const config = await load(`
+labels:
+  - name: bug
+    content: bug
+    regexes: crash
+comments:
+  - name: thanks
+    content: thanks
+`)
+    expect(config.labels).toHaveLength(1)
+    expect(config.labels[0]).toMatchObject({
+      name: 'bug',
+      content: 'bug',
+      regexes: ['crash'],
+      mode: { add: true, remove: true },
+      skip_if: [],
+      remove_if: []
+    })
+    expect(config.comments[0].mode).toEqual({
+      type: 'add',
+      event: true,
+      existing: 'keep',
+      unmatched: 'keep',
+      update: 'replace'
+    })
+    expect(config.actions).toEqual([])
+    expect(config.checks).toEqual([])
+    expect(config.push.add_labels).toEqual(['fixed'])
+    expect(config.push.keywords).toContain('fixes')
+    expect(config.directives).toBeUndefined()
+  })
+
+  it('does not remove labels by default without sync-labels', async () => {
+    const config = await load(
+      `
+labels:
+  - name: bug
+    content: bug
+`,
+      0
+    )
+    expect(config.labels[0].mode).toEqual({ add: true, remove: [] })
+  })
+
+  it('only lets those with write access use directives by default', async () => {
+    expect((await load('directives: true')).directives).toEqual({
+      syntax: expect.any(String),
+      author_association: ['OWNER', 'MEMBER', 'COLLABORATOR']
+    })
+    expect(
+      (await load('directives: {author-association: []}')).directives
+        ?.author_association
+    ).toEqual([])
+  })
+
+  it('accepts an empty configuration', async () => {
+    const config = await load('{}')
+    expect(config.labels).toEqual([])
+    expect(config.comments).toEqual([])
+  })
+
+  it('rejects unknown top-level fields with their location', async () => {
+    const error = await loadError(`labels: []
+lables: []
+`)
+    expect(error.path).toEqual(['lables'])
+    expect(error.line).toBe(2)
+    expect(error.column).toBe(1)
+    expect(error.file).toBe('.github/issue-checker.yml')
+    expect(error.message).toMatch(
+      /^line 2, column 1: lables: found unexpected field `lables`, expected one of /
+    )
+  })
+
+  it('rejects unknown rule fields, naming the rule', async () => {
+    const error = await loadError(`labels:
+  - name: bug
+    content: bug
+  - name: feature
+    content: feature
+    regex: feat
+`)
+    expect(error.path).toEqual(['labels', 1, 'regex'])
+    expect(error.rule).toBe('feature')
+    expect(error.line).toBe(6)
+    expect(error.column).toBe(5)
+    expect(error.message).toContain(
+      'labels[1] (`feature`).regex: found unexpected field `regex`'
+    )
+  })
+
+  it('locates values of the wrong type', async () => {
+    const error = await loadError(`comments:
+  - name: thanks
+    content: thanks
+    mode:
+      type: add
+      existing: replace
+`)
+    expect(error.path).toEqual(['comments', 0, 'mode', 'existing'])
+    expect(error.line).toBe(6)
+    expect(error.column).toBe(7)
+  })
+
+  it('rejects invalid regexes', async () => {
+    const error = await loadError(`labels:
+  - name: bug
+    content: bug
+    regexes: '(unclosed'
+`)
+    expect(error.path).toEqual(['labels', 0, 'regexes', 0])
+    expect(error.line).toBe(4)
+  })
+
+  it('locates syntax errors', async () => {
+    const error = await loadError(`labels:
+  - name: bug
+   content: bug
+`)
+    expect(error.line).toBe(3)
+    expect(error.path).toEqual([])
+    expect(error.message).toMatch(/^line 3, column \d+: /)
+  })
+
+  it('locates errors in extended files', async () => {
+    const error = await loadError({
+      '.github/issue-checker.yml': `extends: .github/base.yml
+labels: []
+`,
+      '.github/base.yml': `comments:
+  - name: thanks
+    contnet: thanks
+`
+    })
+    expect(error.file).toBe('.github/base.yml')
+    expect(error.line).toBe(3)
+    expect(error.message).toMatch(/^\.github\/base\.yml: line 3, column 5: /)
+  })
+
+  it('rejects references to unknown rules', async () => {
+    const error = await loadError(`labels:
+  - name: bug
+    content: bug
+  - name: feature
+    content: feature
+    skip-if: [bgu]
+`)
+    expect(error.path).toEqual(['labels', 1, 'skip-if', 0])
+    expect(error.rule).toBe('feature')
+    expect(error.line).toBe(6)
+  })
+})
+
+describe('preprocess', () => {
+  it('applies to every rule unless the rule sets its own', async () => {
+    const config = await load(`preprocess: [quotes, code_blocks]
+labels:
+  - name: crash
+    regexes: crash
+  - name: logs
+    regexes: '\`\`\`'
+    preprocess: []
+comments:
+  - name: thanks
+    content: Thanks!
+    regexes: crash
+    preprocess: lowercase
+`)
+    expect(config.labels.map(x => x.preprocess)).toEqual([
+      ['quotes', 'code_blocks'],
+      []
+    ])
+    expect(config.comments[0].preprocess).toEqual(['lowercase'])
+  })
+
+  it('rejects unknown preprocessors', async () => {
+    const error = await loadError(`labels:
+  - name: crash
+    regexes: crash
+    preprocess: [quotes, comments]
+`)
+    expect(error.path).toEqual(['labels', 0, 'preprocess', 1])
+  })
+})
+
+describe('matrix', () => {
+  it('expands every combination of the variables', async () => {
+    const config = await load(`labels:
+  - name: '\${os} \${arch}'
+    matrix:
+      os: [linux, windows]
+      arch: [x64, arm64]
+    regexes: '\${os}.*\${arch}'
+`)
+    expect(config.labels.map(x => [x.name, x.regexes])).toEqual([
+      ['linux x64', ['linux.*x64']],
+      ['linux arm64', ['linux.*arm64']],
+      ['windows x64', ['windows.*x64']],
+      ['windows arm64', ['windows.*arm64']]
+    ])
+  })
+
+  it('expands a list of combinations, one per rule', async () => {
+    const config = await load(`labels:
+  - name: '\${label}'
+    matrix:
+      - { label: docs, pattern: '[Dd]ocumentation' }
+      - { label: i18n, pattern: '[Tt]ranslation' }
+    regexes: '\${pattern}'
+  - name: 'skip \${module}'
+    matrix:
+      module: [copilot, depot]
+    content:
+    regexes: 'skip \${module}'
+  - name: 'module: \${module}'
+    matrix:
+      module: [copilot, depot]
+    regexes: '\${module}'
+    skip-if: ['skip \${module}']
+`)
+    expect(config.labels.map(x => [x.name, x.regexes])).toEqual([
+      ['docs', ['[Dd]ocumentation']],
+      ['i18n', ['[Tt]ranslation']],
+      ['skip copilot', ['skip copilot']],
+      ['skip depot', ['skip depot']],
+      ['module: copilot', ['copilot']],
+      ['module: depot', ['depot']]
+    ])
+    expect(config.labels[5].skip_if).toEqual(['skip depot'])
+  })
+
+  it('applies filters and keeps the other placeholders', async () => {
+    const config = await load(`comments:
+  - name: 'ping \${team}'
+    matrix:
+      team: [core, docs]
+    content: 'cc @org/\${team | upper} for @\${author}'
+    regexes: '\${team}'
+`)
+    expect(config.comments.map(x => x.content)).toEqual([
+      'cc @org/CORE for @${author}',
+      'cc @org/DOCS for @${author}'
+    ])
+  })
+
+  it('locates invalid matrices in the rule', async () => {
+    let error = await loadError(`labels:
+  - name: 'a \${x}'
+    matrix:
+      x: []
+`)
+    expect(error.path).toEqual(['labels', 0, 'matrix', 'x'])
+    expect(error.rule).toBe('a ${x}')
+    error = await loadError(`labels:
+  - name: 'a \${x}'
+    matrix:
+      x-y: [1]
+`)
+    expect(error.path).toEqual(['labels', 0, 'matrix', 'x-y'])
+  })
+
+  it('merges the rules of extended files before expanding them', async () => {
+    const config = await load({
+      '.github/issue-checker.yml': `extends: .github/base.yml
+labels:
+  - name: 'skip \${module}'
+    matrix:
+      module: [depot]
+    regexes: 'skip \${module}'
+`,
+      '.github/base.yml': `labels:
+  - name: 'skip \${module}'
+    matrix:
+      module: [copilot, depot]
+    regexes: 'skip \${module}'
+`
+    })
+    expect(config.labels.map(x => x.name)).toEqual(['skip depot'])
+  })
+})
+
+describe('label-definitions', () => {
+  it('reads the colors as GitHub does', async () => {
+    const config = await load(`label-definitions:
+  - name: 'type: bug'
+    color: '#D73A4A'
+    description: Something is not working
+    aliases: [bug, Bug2]
+  - name: feature
+    color: 123456
+`)
+    expect(config.label_definitions).toEqual([
+      {
+        name: 'type: bug',
+        color: 'd73a4a',
+        description: 'Something is not working',
+        aliases: ['bug', 'Bug2']
+      },
+      { name: 'feature', color: '123456', aliases: [] }
+    ])
+  })
+
+  it('rejects invalid colors', async () => {
+    const error = await loadError(`label-definitions:
+  - name: bug
+    color: red
+`)
+    expect(error.path).toEqual(['label-definitions', 0, 'color'])
+  })
+
+  it('defines each label once, whatever its case', async () => {
+    const error = await loadError(`label-definitions:
+  - name: 'type: bug'
+    aliases: [bug]
+  - name: Bug
+`)
+    expect(error.path).toEqual(['label-definitions', 1, 'name'])
+    expect(error.message).toContain(
+      'label `Bug` is already defined by `type: bug`'
+    )
+  })
+})
+
+describe('extends', () => {
+  const base = `labels:
+  - name: bug
+    content: bug
+    regexes: bug
+  - name: question
+    content: question
+    regexes: '\\?'
+  - name: docs
+    content: docs
+    regexes: docs
+push:
+  add-labels: [fixed]
+  branches: [main]
+`
+
+  it('merges the rules by name', async () => {
+    const config = await load({
+      '.github/issue-checker.yml': `extends: .github/base.yml
+labels:
+  - name: bug
+    content: bug
+    regexes: '[Cc]rash'
+  - name: question
+    disabled: true
+  - name: feature
+    content: feature
+    regexes: feature
+push:
+  add-labels: [done]
+`,
+      '.github/base.yml': base
+    })
+    expect(config.labels.map(x => [x.name, x.regexes])).toEqual([
+      ['bug', ['[Cc]rash']],
+      ['docs', ['docs']],
+      ['feature', ['feature']]
+    ])
+    // each field of push is that of the last file setting it
+    expect(config.push.add_labels).toEqual(['done'])
+    expect(config.push.branches).toEqual(['main'])
+  })
+
+  it('loads the files of other repositories', async () => {
+    const sources: IConfigSource[] = []
+    await loadConfig(
+      { path: '.github/issue-checker.yml', ref: 'abc' },
+      async source => {
+        sources.push(source)
+        if (source.path === '.github/issue-checker.yml') {
+          return `extends: [.github:issue-checker.yml, other/shared:base.yml@v1, local.yml]`
+        }
+        return source.path === 'base.yml' ? 'extends: nested.yml' : '{}'
+      },
+      1
+    )
+    expect(sources).toEqual([
+      { path: '.github/issue-checker.yml', ref: 'abc' },
+      { path: 'issue-checker.yml', repo: '.github' },
+      { path: 'base.yml', owner: 'other', repo: 'shared', ref: 'v1' },
+      // relative to the extending file
+      { path: 'nested.yml', owner: 'other', repo: 'shared', ref: 'v1' },
+      { path: 'local.yml', ref: 'abc' }
+    ])
+  })
+
+  it('rejects cycles', async () => {
+    const error = await loadError({
+      '.github/issue-checker.yml': 'extends: .github/base.yml',
+      '.github/base.yml': 'extends: .github/issue-checker.yml'
+    })
+    expect(error.message).toContain(
+      '`.github/issue-checker.yml` extends itself'
+    )
+  })
+
+  it('drops only the rules with disabled true', async () => {
+    const config = await load({
+      '.github/issue-checker.yml': `extends: .github/base.yml
+labels:
+  - name: question
+    disabled: false
+    content: question
+    regexes: '^Q:'
+  - name: wip
+    disabled: true
+    content: wip
+    regexes: WIP
+`,
+      '.github/base.yml': base
+    })
+    expect(config.labels.map(x => [x.name, x.regexes])).toEqual([
+      ['bug', ['bug']],
+      ['question', ['^Q:']],
+      ['docs', ['docs']]
+    ])
+  })
+})
+
+describe('findChangedConfigFiles', () => {
+  const configFiles = ['.github/issue-checker.yml', './.github/base.yml']
+
+  it('finds the configuration files a pull request changes', () => {
+    expect(
+      findChangedConfigFiles(configFiles, [
+        { filename: 'src/main.ts', status: 'modified' },
+        { filename: '.github/issue-checker.yml', status: 'modified' }
+      ])
+    ).toEqual(['.github/issue-checker.yml'])
+    expect(
+      findChangedConfigFiles(configFiles, [
+        {
+          filename: '.github/other.yml',
+          status: 'renamed',
+          previous_filename: '.github/base.yml'
+        }
+      ])
+    ).toEqual(['.github/base.yml'])
+  })
+
+  it('lets through pull requests branched before a configuration change', () => {
+    // the configuration of the fork differs, but the pull request does not
+    // change it
+    expect(
+      findChangedConfigFiles(configFiles, [
+        { filename: 'README.md', status: 'modified' }
+      ])
+    ).toEqual([])
+  })
+})
@@ -1,3 +1,954 @@
-describe('TODO - Add a test suite', () => {
-  it('TODO - Add a test', async () => {})
+import * as fs from 'fs'
+import * as http from 'http'
+import { AddressInfo } from 'net'
+import * as os from 'os'
+import * as path from 'path'
+import { IIssueResult } from '../src/analyze'
+
+// a request received by the fake API
+interface IRequest {
+  method: string
+  // the path and the query
+  url: string
+  body: unknown
+}
+
+// The status, the data and the headers answering a request, undefined to
+// answer with `respond`.
+type Route = (
+  request: IRequest
+) => [number, unknown, { [name: string]: string }?] | undefined
+
+interface IRun {
+  outputs: { [name: string]: string }
+  // the content of the `report-path` file
+  report: {
+    event_name: string
+    dry_run: boolean
+    issues: (IIssueResult & { changed: boolean })[]
+    references: { issue: string; keyword: string; skipped?: string }[]
+    failures: string[]
+  }
+  summary: string
+  log: string
+  requests: IRequest[]
+  failed: boolean
+}
+
+// the repository of the events, as `GITHUB_REPOSITORY`
+const repository = { owner: { login: 'owner' }, name: 'repo' }
+
+// an issue #1 opened with `body`
+function issueEvent(body: string): object {
+  return {
+    action: 'opened',
+    issue: {
+      number: 1,
+      title: 'A title',
+      body,
+      user: { login: 'alice' },
+      author_association: 'NONE',
+      created_at: '2024-01-01T00:00:00Z',
+      labels: []
+    },
+    repository
+  }
+}
+
+// Answers of a repository without labels, comments or templates, whose
+// changes all succeed.
+function respond(request: IRequest): [number, unknown] {
+  if (request.url === '/user') {
+    return [403, { message: 'Resource not accessible by integration' }]
+  }
+  if (request.method !== 'GET') {
+    return [200, {}]
+  }
+  if (/\/(labels|comments|files|commits)(\?|$)/.test(request.url)) {
+    return [200, []]
+  }
+  return [404, { message: 'Not Found' }]
+}
+
+// Run the action as a workflow step does, against a fake API, with the
+// configuration in the workspace.
+async function runAction(options: {
+  event: string
+  payload: object
+  config: string
+  inputs?: { [name: string]: string }
+  routes?: Route
+}): Promise<IRun> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'issue-checker-'))
+  const writeFile = (name: string, content = ''): string => {
+    const file = path.join(dir, name)
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, content)
+    return file
+  }
+  writeFile('.github/issue-checker.yml', options.config)
+
+  const requests: IRequest[] = []
+  const server = http.createServer((req, res) => {
+    let body = ''
+    req.on('data', chunk => (body += chunk))
+    req.on('end', () => {
+      const request = {
+        method: req.method ?? '',
+        url: req.url ?? '',
+        body: body ? JSON.parse(body) : undefined
+      }
+      requests.push(request)
+      const [status, data, headers] =
+        options.routes?.(request) ?? respond(request)
+      res.writeHead(status, { 'content-type': 'application/json', ...headers })
+      res.end(JSON.stringify(data))
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, resolve))
+  const { port } = server.address() as AddressInfo
+
+  // the defaults of action.yml
+  const inputs: { [name: string]: string } = {
+    'repo-token': 'token',
+    'configuration-path': '.github/issue-checker.yml',
+    'configuration-source': 'workspace',
+    'include-title': '0',
+    'sync-labels': '1',
+    'report-unused-labels': '0',
+    'dry-run': '0',
+    'backfill-state': 'open',
+    'backfill-type': 'all',
+    'backfill-max-items': '100',
+    'fail-on-error': '0',
+    'report-path': path.join(dir, 'report.json'),
+    ...options.inputs
+  }
+  const env = { ...process.env }
+  const outputFile = writeFile('output')
+  const summaryFile = writeFile('summary')
+  Object.assign(process.env, {
+    GITHUB_API_URL: `http://localhost:${port}`,
+    GITHUB_REPOSITORY: 'owner/repo',
+    GITHUB_EVENT_NAME: options.event,
+    GITHUB_EVENT_PATH: writeFile('event.json', JSON.stringify(options.payload)),
+    GITHUB_SHA: '0'.repeat(40),
+    GITHUB_WORKSPACE: dir,
+    GITHUB_OUTPUT: outputFile,
+    GITHUB_STEP_SUMMARY: summaryFile
+  })
+  for (const [name, value] of Object.entries(inputs)) {
+    process.env[`INPUT_${name.toUpperCase()}`] = value
+  }
+  const write = jest
+    .spyOn(process.stdout, 'write')
+    .mockImplementation(() => true)
+
+  try {
+    // the action runs on import, and ends by writing the report
+    jest.isolateModules(() => {
+      require('../src/main')
+    })
+    const reportFile = inputs['report-path']
+    for (let waited = 0; !fs.existsSync(reportFile); waited += 10) {
+      if (waited > 20000) throw Error('the action did not end')
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+
+    const outputs: { [name: string]: string } = {}
+    const lines = fs.readFileSync(outputFile, 'utf8').split(os.EOL)
+    for (let i = 0; i < lines.length; i++) {
+      const match = /^(.+)<<(.+)$/.exec(lines[i])
+      if (match) {
+        const end = lines.indexOf(match[2], i + 1)
+        outputs[match[1]] = lines.slice(i + 1, end).join('\n')
+        i = end
+      }
+    }
+    return {
+      outputs,
+      report: JSON.parse(fs.readFileSync(reportFile, 'utf8')),
+      summary: fs.readFileSync(summaryFile, 'utf8'),
+      log: write.mock.calls.map(([chunk]) => String(chunk)).join(''),
+      requests,
+      failed: process.exitCode === 1
+    }
+  } finally {
+    write.mockRestore()
+    process.exitCode = undefined
+    for (const name of Object.keys(process.env)) {
+      if (!(name in env)) delete process.env[name]
+    }
+    Object.assign(process.env, env)
+    await new Promise(resolve => server.close(resolve))
+    fs.rmSync(dir, { recursive: true, force: true })
+  }
+}
+
+// the requests changing something
+function changes(run: IRun): string[] {
+  return run.requests
+    .filter(x => x.method !== 'GET')
+    .map(x => `${x.method} ${x.url}`)
+}
+
+jest.setTimeout(30000)
+
+describe('dry-run', () => {
+  const config = `
+labels:
+  - name: bug
+    content: bug
+    regexes: crash
+comments:
+  - name: thanks
+    content: Thanks for the <report>!
+    regexes: crash
+`
+
+  it('records the changes in the summary instead of making them', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('It crashes'),
+      config,
+      inputs: { 'dry-run': '1' }
+    })
+    expect(run.failed).toBe(false)
+    expect(changes(run)).toEqual([])
+    expect(run.summary).toContain('Issue Checker dry run')
+    expect(run.summary).toContain(
+      '<tr><td>issue #1</td><td>add labels</td><td>bug</td></tr>'
+    )
+    // the details are escaped
+    expect(run.summary).toContain('Thanks for the &lt;report&gt;!<br>')
+    // the outputs tell what would be changed
+    expect(run.outputs['labels-added']).toBe('bug')
+    expect(run.outputs['comments-created']).toBe('1')
+    expect(run.report.dry_run).toBe(true)
+  })
+
+  it('says when nothing would be changed', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('A question'),
+      config,
+      inputs: { 'dry-run': '1' }
+    })
+    expect(changes(run)).toEqual([])
+    expect(run.summary).toContain('No action would be taken.')
+    expect(run.outputs['issue-numbers']).toBe('')
+  })
+
+  it('makes the changes otherwise', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('It crashes'),
+      config
+    })
+    expect(changes(run)).toEqual([
+      'POST /repos/owner/repo/issues/1/labels',
+      'POST /repos/owner/repo/issues/1/comments'
+    ])
+    expect(run.summary).toBe('')
+    expect(run.report.dry_run).toBe(false)
+  })
+})
+
+describe('changed files', () => {
+  const config = `
+labels:
+  - name: 'module: copilot'
+    content: 'module: copilot'
+    files: 'src/Copilot/**'
+`
+  const payload = {
+    action: 'opened',
+    pull_request: {
+      number: 1,
+      body: '',
+      user: { login: 'alice' },
+      head: { ref: 'copilot', repo: { full_name: 'owner/repo' } },
+      base: { ref: 'main', repo: { full_name: 'owner/repo' } },
+      labels: []
+    },
+    repository
+  }
+
+  it('loads every page of the changed files', async () => {
+    const run = await runAction({
+      event: 'pull_request',
+      payload,
+      config,
+      routes: ({ method, url }) => {
+        if (method !== 'GET' || !url.includes('/pulls/1/files')) return
+        if (!url.includes('page=2')) {
+          const files = Array.from({ length: 100 }, (_, i) => ({
+            filename: `docs/${i}.md`,
+            status: 'added'
+          }))
+          const next = `${process.env.GITHUB_API_URL}/repos/owner/repo/pulls/1/files?per_page=100&page=2`
+          return [200, files, { link: `<${next}>; rel="next"` }]
+        }
+        return [200, [{ filename: 'src/Copilot/Task.cs', status: 'modified' }]]
+      }
+    })
+    expect(
+      run.requests.filter(x => x.url.includes('/pulls/1/files'))
+    ).toHaveLength(2)
+    expect(run.outputs['labels-added']).toBe('module: copilot')
+  })
+
+  it('does not load them unless some rule needs them', async () => {
+    const run = await runAction({
+      event: 'pull_request',
+      payload,
+      config: 'labels: []'
+    })
+    expect(run.requests.filter(x => x.url.includes('/files'))).toEqual([])
+  })
+})
+
+describe('backfill', () => {
+  const config = `
+labels:
+  - name: bug
+    content: bug
+    regexes: crash
+  - name: dependencies
+    content: dependencies
+    targets: head_branch
+    regexes: '^dependabot/'
+`
+  // an issue, or a pull request as the issues API lists it
+  const item = (
+    number: number,
+    created_at: string,
+    body: string,
+    pull = false
+  ): object => ({
+    number,
+    created_at,
+    body,
+    user: { login: 'alice' },
+    labels: [],
+    ...(pull ? { pull_request: {} } : {})
+  })
+  // answers the pages of the issues API
+  const listing =
+    (...pages: object[][]): Route =>
+    ({ method, url }) => {
+      if (method !== 'GET' || !/^\/repos\/owner\/repo\/issues\?/.test(url)) {
+        return
+      }
+      const page = parseInt(/[?&]page=(\d+)/.exec(url)?.[1] ?? '1')
+      return [200, pages[page - 1] ?? []]
+    }
+
+  it('handles the most recent items of the type, up to not-before', async () => {
+    const run = await runAction({
+      event: 'workflow_dispatch',
+      payload: { inputs: {}, repository },
+      config,
+      inputs: {
+        'backfill-type': 'issues',
+        'backfill-labels': 'needs triage',
+        'not-before': '2024-01-01T00:00:00Z'
+      },
+      routes: listing([
+        item(4, '2024-03-01T00:00:00Z', 'It crashes'),
+        item(3, '2024-02-01T00:00:00Z', 'Fix the crash', true),
+        item(2, '2024-01-15T00:00:00Z', 'A question'),
+        item(1, '2023-12-01T00:00:00Z', 'It crashes too')
+      ])
+    })
+    expect(run.failed).toBe(false)
+    const [list] = run.requests
+    expect(list.url).toContain('state=open')
+    expect(list.url).toContain('labels=needs%20triage')
+    expect(list.url).toContain('sort=created&direction=desc')
+    expect(changes(run)).toEqual(['POST /repos/owner/repo/issues/4/labels'])
+    expect(run.log).toContain('[1/2] Issue #4: add labels bug')
+    expect(run.log).toContain('[2/2] Issue #2: nothing to do')
+    expect(run.summary).toContain(
+      'Backfilled 2 issues and pull requests, 1 changed.'
+    )
+    expect(run.summary).toContain('<td>#4</td><td>add labels bug</td>')
+  })
+
+  it('pages through the items, up to backfill-max-items', async () => {
+    const questions = Array.from({ length: 100 }, (_, i) =>
+      item(200 - i, '2024-02-01T00:00:00Z', 'A question')
+    )
+    const run = await runAction({
+      event: 'schedule',
+      payload: { repository },
+      config,
+      inputs: { 'backfill-max-items': '101' },
+      routes: listing(questions, [
+        item(4, '2024-01-01T00:00:00Z', 'It crashes'),
+        item(3, '2024-01-01T00:00:00Z', 'It crashes')
+      ])
+    })
+    expect(changes(run)).toEqual(['POST /repos/owner/repo/issues/4/labels'])
+    expect(run.summary).toContain(
+      'Backfilled 101 issues and pull requests, 1 changed.'
+    )
+  })
+
+  it('loads the pull requests for their branches', async () => {
+    const run = await runAction({
+      event: 'workflow_dispatch',
+      payload: { inputs: {}, repository },
+      config,
+      inputs: { 'backfill-type': 'pull_requests' },
+      routes: request =>
+        request.url === '/repos/owner/repo/pulls/3'
+          ? [
+              200,
+              {
+                ...item(3, '2024-02-01T00:00:00Z', ''),
+                head: { ref: 'dependabot/npm/yaml' },
+                base: { ref: 'main' }
+              }
+            ]
+          : listing([
+              item(4, '2024-03-01T00:00:00Z', 'It crashes'),
+              item(3, '2024-02-01T00:00:00Z', '', true)
+            ])(request)
+    })
+    expect(changes(run)).toEqual(['POST /repos/owner/repo/issues/3/labels'])
+    expect(run.report.issues.map(x => x.added_labels)).toEqual([
+      ['dependencies']
+    ])
+  })
+
+  it('rejects an invalid backfill-max-items', async () => {
+    const run = await runAction({
+      event: 'workflow_dispatch',
+      payload: { inputs: {}, repository },
+      config,
+      inputs: { 'backfill-max-items': '0' }
+    })
+    expect(run.failed).toBe(true)
+    expect(run.log).toContain(
+      'input `backfill-max-items` should be a positive integer'
+    )
+    expect(changes(run)).toEqual([])
+  })
+})
+
+describe('discussions', () => {
+  const config = `
+labels:
+  - name: question
+    content: question
+    regexes: '\\?'
+  - name: build
+    content: build
+    regexes: build
+comments:
+  - name: thanks
+    content: Thanks for asking!
+    regexes: '\\?'
+`
+  // answers the GraphQL API for discussion D_1, with only the label `question`
+  const graphql: Route = ({ url, body }) => {
+    if (url !== '/graphql') return
+    const { query, variables } = body as {
+      query: string
+      variables: { name?: string }
+    }
+    if (query.includes('labels(first')) {
+      return [200, { data: { node: { labels: { nodes: [] } } } }]
+    }
+    if (query.includes('comments(first')) {
+      const pageInfo = { hasNextPage: false, endCursor: null }
+      return [200, { data: { node: { comments: { nodes: [], pageInfo } } } }]
+    }
+    if (query.includes('label(name')) {
+      const label = variables.name === 'question' ? { id: 'L_question' } : null
+      return [200, { data: { repository: { label } } }]
+    }
+    return [200, { data: {} }]
+  }
+
+  it('labels and comments with the GraphQL API', async () => {
+    const run = await runAction({
+      event: 'discussion',
+      payload: {
+        action: 'created',
+        discussion: {
+          number: 1,
+          node_id: 'D_1',
+          body: 'How to build?',
+          user: { login: 'alice' },
+          author_association: 'NONE',
+          created_at: '2024-01-01T00:00:00Z'
+        },
+        repository
+      },
+      config,
+      routes: graphql
+    })
+    const mutations = run.requests
+      .filter(x => x.url === '/graphql')
+      .map(x => x.body as { query: string })
+      .filter(x => /^\s*mutation/.test(x.query))
+    expect(mutations).toEqual([
+      {
+        query: expect.stringContaining('addLabelsToLabelable'),
+        variables: { id: 'D_1', labelIds: ['L_question'] }
+      },
+      {
+        query: expect.stringContaining('addDiscussionComment'),
+        variables: {
+          id: 'D_1',
+          body: expect.stringContaining('Thanks for asking!')
+        }
+      }
+    ])
+    // the labels missing from the repository are not added
+    expect(run.outputs['labels-added']).toBe('question')
+    expect(run.report.failures).toEqual(['Unable to find label build.'])
+    expect(changes(run).every(x => x === 'POST /graphql')).toBe(true)
+  })
+})
+
+describe('pull requests from forks', () => {
+  const config = `
+labels:
+  - name: bug
+    content: bug
+    regexes: crash
+`
+  const payload = {
+    action: 'opened',
+    pull_request: {
+      number: 1,
+      body: 'Fix the crash',
+      user: { login: 'alice' },
+      changed_files: 2,
+      head: { ref: 'fix', repo: { full_name: 'alice/repo' } },
+      base: { ref: 'main', repo: { full_name: 'owner/repo' } },
+      labels: []
+    },
+    repository
+  }
+  // the pull request changes `src/a.ts` and `file`
+  const files =
+    (file: string): Route =>
+    ({ url }) =>
+      url.startsWith('/repos/owner/repo/pulls/1/files')
+        ? [
+            200,
+            [
+              { filename: 'src/a.ts', status: 'modified' },
+              { filename: file, status: 'modified' }
+            ]
+          ]
+        : undefined
+
+  it('applies the rules unless the configuration is changed', async () => {
+    // whatever the configuration of the fork, only the changed files count
+    const run = await runAction({
+      event: 'pull_request_target',
+      payload,
+      config,
+      routes: files('README.md')
+    })
+    expect(run.failed).toBe(false)
+    expect(run.outputs['labels-added']).toBe('bug')
+  })
+
+  it('fails if the pull request changes the configuration', async () => {
+    const run = await runAction({
+      event: 'pull_request_target',
+      payload,
+      config,
+      routes: files('.github/issue-checker.yml')
+    })
+    expect(run.failed).toBe(true)
+    expect(run.log).toContain(
+      'the pull request from alice/repo changes the configuration `.github/issue-checker.yml`'
+    )
+    expect(changes(run)).toEqual([])
+  })
+
+  it('fails if the changed files cannot all be listed', async () => {
+    const run = await runAction({
+      event: 'pull_request_target',
+      payload: {
+        ...payload,
+        pull_request: { ...payload.pull_request, changed_files: 3001 }
+      },
+      config,
+      routes: files('README.md')
+    })
+    expect(run.failed).toBe(true)
+    expect(changes(run)).toEqual([])
+  })
+})
+
+describe('label-definitions', () => {
+  const config = `
+label-definitions:
+  - name: 'type: bug'
+    color: d73a4a
+    aliases: [bug]
+  - name: docs
+    color: 0075ca
+    description: Documentation
+  - name: good first issue
+    color: 7057ff
+labels:
+  - name: docs
+    content: docs
+    regexes: README
+`
+  const labels: Route = ({ method, url }) =>
+    method === 'GET' && url.startsWith('/repos/owner/repo/labels')
+      ? [
+          200,
+          [
+            { name: 'Bug', color: 'ee0701', description: null },
+            { name: 'Docs', color: '0075CA', description: 'Documentation' },
+            { name: 'stale', color: 'ffffff', description: null }
+          ]
+        ]
+      : undefined
+
+  it('creates, renames and updates the labels before the rules', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('Fix the README'),
+      config,
+      inputs: { 'report-unused-labels': '1' },
+      routes: labels
+    })
+    expect(
+      run.requests
+        .filter(x => x.method !== 'GET')
+        .map(x => [`${x.method} ${x.url}`, x.body])
+    ).toEqual([
+      [
+        'PATCH /repos/owner/repo/labels/Bug',
+        { new_name: 'type: bug', color: 'd73a4a' }
+      ],
+      [
+        // only the case of the name differs
+        'PATCH /repos/owner/repo/labels/Docs',
+        { new_name: 'docs', color: '0075ca', description: 'Documentation' }
+      ],
+      [
+        'POST /repos/owner/repo/labels',
+        { name: 'good first issue', color: '7057ff' }
+      ],
+      ['POST /repos/owner/repo/issues/1/labels', { labels: ['docs'] }]
+    ])
+    expect(run.log).toContain(
+      'These labels are not referenced by the configuration: stale'
+    )
+  })
+
+  it('leaves the labels alone unless some are defined', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('Fix the README'),
+      config: 'labels: []',
+      routes: labels
+    })
+    expect(run.requests.filter(x => x.url.includes('/labels'))).toEqual([
+      expect.objectContaining({ url: '/repos/owner/repo/issues/1/labels' })
+    ])
+  })
+})
+
+describe('templates', () => {
+  const config = `
+preprocess: [template]
+labels:
+  - name: crash
+    content: crash
+    regexes: '[Cc]rash'
+`
+  const template = '---\nname: Bug\n---\n## Describe the crash\n'
+  // the issue templates of the repository, in a directory
+  const templates: Route = ({ method, url }) => {
+    const match = /^\/repos\/owner\/repo\/contents\/([^?]+)/.exec(
+      decodeURIComponent(url)
+    )
+    if (method !== 'GET' || !match) return
+    if (match[1] === '.github/ISSUE_TEMPLATE') {
+      return [
+        200,
+        ['bug.md', 'config.yml'].map(name => ({
+          type: 'file',
+          name,
+          path: `.github/ISSUE_TEMPLATE/${name}`
+        }))
+      ]
+    }
+    if (match[1] === '.github/ISSUE_TEMPLATE/bug.md') {
+      const content = Buffer.from(template).toString('base64')
+      return [200, { type: 'file', encoding: 'base64', content }]
+    }
+    return [404, { message: 'Not Found' }]
+  }
+
+  it('strips the lines left from the issue templates', async () => {
+    const fromTemplate = await runAction({
+      event: 'issues',
+      payload: issueEvent('## Describe the crash\n\nIt works for me'),
+      config,
+      routes: templates
+    })
+    expect(fromTemplate.outputs['labels-added']).toBe('')
+    expect(fromTemplate.requests.some(x => x.url.includes('config.yml'))).toBe(
+      false
+    )
+
+    const written = await runAction({
+      event: 'issues',
+      payload: issueEvent('## Describe the crash\n\nIt crashes on start'),
+      config,
+      routes: templates
+    })
+    expect(written.outputs['labels-added']).toBe('crash')
+  })
+
+  it('loads the templates only for the rules preprocessing them', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('## Describe the crash'),
+      config: config.replace('preprocess: [template]', ''),
+      routes: templates
+    })
+    expect(run.requests.filter(x => x.url.includes('/contents/'))).toEqual([])
+    expect(run.outputs['labels-added']).toBe('crash')
+  })
+})
+
+describe('authors', () => {
+  it('loads the membership of the authors in the teams', async () => {
+    const run = await runAction({
+      event: 'issue_comment',
+      payload: {
+        action: 'created',
+        issue: {
+          number: 1,
+          body: 'It crashes',
+          user: { login: 'alice' },
+          author_association: 'NONE',
+          labels: []
+        },
+        comment: {
+          id: 2,
+          body: '/triage',
+          user: { login: 'bob' },
+          author_association: 'MEMBER'
+        },
+        repository
+      },
+      config: `
+comments:
+  - name: triage
+    content: Triaged by @\${author}
+    regexes: '^/triage'
+    when:
+      author: { team: org/maintainers }
+`,
+      routes: ({ url }) =>
+        url.startsWith('/orgs/org/teams/maintainers/memberships/')
+          ? url.endsWith('/bob')
+            ? [200, { state: 'active' }]
+            : [404, { message: 'Not Found' }]
+          : undefined
+    })
+    expect(
+      run.requests.filter(x => x.url.startsWith('/orgs/')).map(x => x.url)
+    ).toEqual([
+      '/orgs/org/teams/maintainers/memberships/bob',
+      '/orgs/org/teams/maintainers/memberships/alice'
+    ])
+    expect(changes(run)).toEqual(['POST /repos/owner/repo/issues/1/comments'])
+    expect(run.log).not.toContain('Unable to load the membership')
+  })
+
+  describe('of pushes', () => {
+    const config = `
+push:
+  when:
+    author: { association: 'OWNER|MEMBER' }
+`
+    // a push of `pusher` fixing issue #2
+    const push = (pusher: string): object => ({
+      ref: 'refs/heads/main',
+      pusher: { name: pusher },
+      organization: { login: 'owner' },
+      repository,
+      commits: [
+        {
+          id: 'a'.repeat(40),
+          message: 'Fixes #2',
+          url: 'https://github.com/owner/repo/commit/a',
+          author: { name: pusher, username: pusher }
+        }
+      ],
+      head_commit: { timestamp: '2024-01-01T00:00:00Z' }
+    })
+    const members: Route = ({ method, url }) => {
+      if (method !== 'GET') return
+      if (url === '/orgs/owner/members/bob') return [204, undefined]
+      if (url.startsWith('/repos/owner/repo/collaborators/')) {
+        return [200, { permission: 'read' }]
+      }
+    }
+
+    it('loads the association of the pusher', async () => {
+      const run = await runAction({
+        event: 'push',
+        payload: push('bob'),
+        config,
+        routes: members
+      })
+      expect(changes(run)).toEqual(['POST /repos/owner/repo/issues/2/labels'])
+      expect(run.report.references).toEqual([
+        { issue: '#2', keyword: 'Fixes', commit: 'a'.repeat(40) }
+      ])
+    })
+
+    it('skips the references of other pushers', async () => {
+      const run = await runAction({
+        event: 'push',
+        payload: push('carol'),
+        config,
+        routes: members
+      })
+      expect(changes(run)).toEqual([])
+      expect(run.report.references).toEqual([
+        expect.objectContaining({ issue: '#2', skipped: expect.any(String) })
+      ])
+    })
+  })
+})
+
+describe('outputs and report', () => {
+  const config = `
+labels:
+  - name: bug
+    content: bug
+    regexes: crash
+  - name: triage
+    content: triage
+    regexes: '\\?'
+comments:
+  - name: thanks
+    content: Thanks!
+    regexes: crash
+`
+  const payload = issueEvent('It crashes')
+  // the issue has the label `triage`
+  const labeled: Route = ({ method, url }) =>
+    method === 'GET' && url.startsWith('/repos/owner/repo/issues/1/labels')
+      ? [200, [{ name: 'triage' }]]
+      : undefined
+
+  it('sets the outputs from the changes made', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload,
+      config,
+      routes: labeled
+    })
+    expect(run.outputs).toEqual({
+      'labels-added': 'bug',
+      'labels-removed': 'triage',
+      'comments-created': '1',
+      'comments-updated': '0',
+      'matched-rules': 'bug,thanks',
+      'issue-numbers': '1'
+    })
+    expect(run.report).toMatchObject({
+      event_name: 'issues',
+      dry_run: false,
+      issues: [
+        {
+          issue: '#1',
+          added_labels: ['bug'],
+          removed_labels: ['triage'],
+          created_comments: ['<!-- issue-checker:comment thanks -->'],
+          changed: true
+        }
+      ],
+      references: [],
+      failures: []
+    })
+  })
+
+  it('leaves out the changes that failed', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload,
+      config,
+      routes: request =>
+        request.method === 'POST'
+          ? [422, { message: 'Validation Failed' }]
+          : labeled(request)
+    })
+    expect(run.outputs['labels-added']).toBe('')
+    expect(run.outputs['comments-created']).toBe('0')
+    expect(run.outputs['issue-numbers']).toBe('1')
+    expect(run.report.failures).toEqual([
+      expect.stringContaining('Unable to add labels.'),
+      expect.stringContaining('Unable to add comment `Thanks!')
+    ])
+    expect(run.log).toContain('2 actions could not be applied.')
+    expect(run.failed).toBe(false)
+  })
+})
+
+describe('retries', () => {
+  const config = `
+labels:
+  - name: bug
+    content: bug
+    regexes: crash
+`
+
+  it('retries the requests over a rate limit', async () => {
+    let limited = false
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('It crashes'),
+      config,
+      routes: ({ method }) => {
+        if (method !== 'POST' || limited) return
+        limited = true
+        return [429, { message: 'Too many requests' }, { 'retry-after': '0' }]
+      }
+    })
+    expect(changes(run)).toEqual([
+      'POST /repos/owner/repo/issues/1/labels',
+      'POST /repos/owner/repo/issues/1/labels'
+    ])
+    expect(run.log).toContain('Rate limit hit by POST')
+    expect(run.outputs['labels-added']).toBe('bug')
+  })
+
+  it('fails with fail-on-error once a change failed', async () => {
+    const run = await runAction({
+      event: 'issues',
+      payload: issueEvent('It crashes'),
+      config,
+      inputs: { 'fail-on-error': '1' },
+      routes: ({ method }) =>
+        method === 'POST' ? [502, { message: 'Bad Gateway' }] : undefined
+    })
+    // a change failed with a server error may have been made, it is not retried
+    expect(changes(run)).toEqual(['POST /repos/owner/repo/issues/1/labels'])
+    expect(run.report.failures).toEqual([
+      expect.stringContaining('Unable to add labels.')
+    ])
+    expect(run.failed).toBe(true)
+  })
 })
@@ -0,0 +1,176 @@
+import {
+  countFormSelections,
+  getFormField,
+  parseFormFields,
+  preprocessText
+} from '../src/markdown'
+
+// an issue opened with an issue form, as GitHub renders the response
+const FORM_BODY = [
+  '### Version',
+  '',
+  '2.0',
+  '',
+  '### What happened?',
+  '',
+  'The app crashes on start.',
+  '',
+  'It worked in 1.9.',
+  '',
+  '### Browsers',
+  '',
+  'Firefox, Chrome',
+  '',
+  '### Operating systems',
+  '',
+  '- [X] Linux',
+  '- [ ] macOS',
+  '- [x] Windows',
+  '',
+  '### Relevant log output',
+  '',
+  '```shell',
+  '### not a field',
+  'Error: boom',
+  '```',
+  '',
+  '',
+  '### Anything else?',
+  '',
+  '_No response_',
+  '',
+  '### Code of Conduct',
+  '',
+  "- [ ] I agree to follow this project's Code of Conduct"
+].join('\n')
+
+describe('parseFormFields', () => {
+  it('parses the fields of an issue form response', () => {
+    expect(parseFormFields(FORM_BODY)).toEqual({
+      Version: '2.0',
+      'What happened?': 'The app crashes on start.\n\nIt worked in 1.9.',
+      Browsers: 'Firefox, Chrome',
+      'Operating systems': 'Linux, Windows',
+      'Relevant log output': '### not a field\nError: boom',
+      'Anything else?': '',
+      'Code of Conduct': ''
+    })
+  })
+
+  it('handles CRLF line endings', () => {
+    expect(parseFormFields('### Version\r\n\r\n2.0\r\n')).toEqual({
+      Version: '2.0'
+    })
+  })
+
+  it('keeps the first of fields with the same label', () => {
+    expect(parseFormFields('### Version\n\n1\n\n### Version\n\n2')).toEqual({
+      Version: '1'
+    })
+  })
+
+  it('finds no field in a body written by hand', () => {
+    expect(parseFormFields('It crashes.\n\n## Steps\n\n1. Open it')).toEqual({})
+  })
+
+  it('keeps code that is not the whole value', () => {
+    expect(
+      parseFormFields('### Steps\n\nRun\n```\nnpm start\n```')['Steps']
+    ).toBe('Run\n```\nnpm start\n```')
+  })
+})
+
+describe('getFormField', () => {
+  const fields = parseFormFields(FORM_BODY)
+
+  it('matches labels case-insensitively', () => {
+    expect(getFormField(fields, 'version')).toBe('2.0')
+    expect(getFormField(fields, ' WHAT HAPPENED? ')).toBe(
+      'The app crashes on start.\n\nIt worked in 1.9.'
+    )
+  })
+
+  it('tells empty fields from missing ones', () => {
+    expect(getFormField(fields, 'Anything else?')).toBe('')
+    expect(getFormField(fields, 'Expected behavior')).toBeUndefined()
+  })
+})
+
+describe('countFormSelections', () => {
+  it('counts the checked boxes of checkboxes', () => {
+    expect(countFormSelections(FORM_BODY, 'operating systems')).toBe(2)
+    expect(countFormSelections(FORM_BODY, 'Code of Conduct')).toBe(0)
+  })
+
+  it('counts other fields as one box once answered', () => {
+    expect(countFormSelections(FORM_BODY, 'Browsers')).toBe(1)
+    expect(countFormSelections(FORM_BODY, 'What happened?')).toBe(1)
+    expect(
+      countFormSelections('### Steps\n\nOpen it, then close it', 'Steps')
+    ).toBe(1)
+    expect(countFormSelections(FORM_BODY, 'Anything else?')).toBe(0)
+    expect(countFormSelections(FORM_BODY, 'Expected behavior')).toBe(0)
+  })
+})
+
+describe('preprocessText', () => {
+  it('strips fenced code blocks, leaving a blank line', () => {
+    const text = [
+      'It crashes',
+      '````',
+      '```',
+      'panic',
+      '```',
+      '````',
+      'on start',
+      '~~~',
+      'unclosed'
+    ].join('\n')
+    expect(preprocessText(text, ['code_blocks'])).toBe(
+      'It crashes\n\non start\n'
+    )
+  })
+
+  it('strips HTML comments, unclosed ones too', () => {
+    expect(
+      preprocessText('a <!-- hint -->b\n<!-- c\nd -->e <!-- f', [
+        'html_comments'
+      ])
+    ).toBe('a b\ne ')
+  })
+
+  it('strips quotes and their continuation lines', () => {
+    expect(
+      preprocessText('> It crashes\nquoted too\n\nIt works', ['quotes'])
+    ).toBe('\nIt works')
+  })
+
+  it('strips the lines left from the templates', () => {
+    const template = '---\nname: Bug\n---\n## Steps\n\n- [ ] I searched\n'
+    expect(
+      preprocessText(
+        '## Steps\n\nIt crashes\n- [ ] I searched\n- [x] I searched',
+        ['template'],
+        [template]
+      )
+    ).toBe('\nIt crashes\n- [x] I searched')
+  })
+
+  it('normalizes the whitespace and the case', () => {
+    expect(
+      preprocessText('  It   Crashes \r\n\n\n\n\ton  Start ', [
+        'whitespace',
+        'lowercase'
+      ])
+    ).toBe('it crashes\n\non start')
+  })
+
+  it('applies the preprocessors in a fixed order', () => {
+    // the quote is stripped after the comment joining its lines
+    const text = '> quoted<!--\n-->still quoted\n\nkept'
+    expect(preprocessText(text, ['quotes', 'html_comments'])).toBe(
+      preprocessText(text, ['html_comments', 'quotes'])
+    )
+    expect(preprocessText(text, ['quotes', 'html_comments'])).toBe('\nkept')
+  })
+})
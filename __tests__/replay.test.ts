@@ -0,0 +1,179 @@
+import { parseAllRules } from '../src/config'
+import { getEventInfo } from '../src/event'
+import {
+  formatPlan,
+  getRepository,
+  guessEventName,
+  parseChangedFiles,
+  parseCommitMessages,
+  parseLabelNames,
+  parseTeamMembers,
+  replayEvent
+} from '../src/replay'
+
+const repository = { owner: { login: 'owner' }, name: 'repo' }
+const repo = { owner: 'owner', repo: 'repo' }
+
+describe('guessEventName', () => {
+  it('deduces the event from the shape of the payload', () => {
+    expect(guessEventName({ issue: { number: 1 } })).toBe('issues')
+    expect(guessEventName({ issue: { number: 1 }, comment: { id: 2 } })).toBe(
+      'issue_comment'
+    )
+    expect(guessEventName({ pull_request: { number: 1 } })).toBe('pull_request')
+    expect(
+      guessEventName({ pull_request: { number: 1 }, review: { id: 2 } })
+    ).toBe('pull_request_review')
+    expect(
+      guessEventName({ pull_request: { number: 1 }, comment: { id: 2 } })
+    ).toBe('pull_request_review_comment')
+    expect(guessEventName({ discussion: { number: 1 } })).toBe('discussion')
+    expect(
+      guessEventName({ discussion: { number: 1 }, comment: { id: 2 } })
+    ).toBe('discussion_comment')
+    expect(guessEventName({ commits: [] })).toBe('push')
+  })
+
+  it('fails on unknown payloads', () => {
+    expect(() => guessEventName({ action: 'created' })).toThrow(
+      'cannot deduce the event name'
+    )
+  })
+})
+
+describe('parsing the replay files', () => {
+  it('reads label names and label objects', () => {
+    expect(parseLabelNames(['bug', { name: 'help wanted', id: 1 }])).toEqual(
+      new Set(['bug', 'help wanted'])
+    )
+    expect(() => parseLabelNames([1])).toThrow('found unexpected label `1`')
+    expect(() => parseLabelNames('bug')).toThrow('should be an array')
+  })
+
+  it('reads commit messages of the API and of push payloads', () => {
+    expect(
+      parseCommitMessages([
+        'fix: a',
+        { commit: { message: 'fix: b' } },
+        { message: 'fix: c' }
+      ])
+    ).toEqual(['fix: a', 'fix: b', 'fix: c'])
+    expect(() => parseCommitMessages([{ sha: 'abc' }])).toThrow(
+      'found unexpected commit'
+    )
+  })
+
+  it('reads changed files, modified unless told otherwise', () => {
+    expect(
+      parseChangedFiles([
+        'src/a.ts',
+        { filename: 'src/b.ts', status: 'renamed', previous_filename: 'b.ts' }
+      ])
+    ).toEqual([
+      { filename: 'src/a.ts', status: 'modified' },
+      { filename: 'src/b.ts', status: 'renamed', previous_filename: 'b.ts' }
+    ])
+    expect(() => parseChangedFiles([{ status: 'added' }])).toThrow(
+      'found unexpected file'
+    )
+  })
+
+  it('reads the members of teams', () => {
+    expect(parseTeamMembers({ 'org/core': ['alice'] })).toEqual({
+      'org/core': ['alice']
+    })
+    expect(() => parseTeamMembers({ 'org/core': 'alice' })).toThrow(
+      'teams should be an object'
+    )
+    expect(() => parseTeamMembers([])).toThrow('teams should be an object')
+  })
+})
+
+describe('getRepository', () => {
+  it('falls back to a placeholder', () => {
+    expect(getRepository({ repository })).toEqual(repo)
+    expect(getRepository({})).toEqual(repo)
+  })
+})
+
+describe('replayEvent', () => {
+  const config = parseAllRules(
+    {
+      labels: [{ name: 'bug', content: 'bug', regexes: 'crash' }],
+      comments: [{ name: 'thanks', content: 'Thanks!', regexes: 'crash' }],
+      push: {}
+    },
+    1
+  )
+
+  it('plans the labels and comments of an issue', () => {
+    const { plans, notes } = replayEvent(
+      config,
+      'issues',
+      getEventInfo('issues', {
+        issue: { number: 3, body: 'It crashes', user: { login: 'alice' } },
+        repository
+      }),
+      new Set(['question']),
+      repo,
+      0,
+      1
+    )
+    expect(notes).toEqual([])
+    expect(plans).toHaveLength(1)
+    expect(plans[0].addLabels).toEqual(['bug'])
+    expect(formatPlan(plans[0], repo)).toBe(
+      [
+        'Issue #3 (matched bug, thanks)',
+        '  + label bug',
+        '  + comment (unless posted earlier)',
+        '    Thanks!',
+        '',
+        '    <!-- issue-checker:comment thanks -->'
+      ].join('\n')
+    )
+  })
+
+  it('notes the issue references of a push', () => {
+    const { plans, notes } = replayEvent(
+      config,
+      'push',
+      getEventInfo('push', {
+        ref: 'refs/heads/main',
+        repository,
+        commits: [
+          {
+            id: 'a'.repeat(40),
+            message: 'Fix #5',
+            url: 'https://github.com/owner/repo/commit/a',
+            author: { name: 'Alice', username: 'alice' }
+          }
+        ]
+      }),
+      new Set(),
+      repo,
+      0,
+      1
+    )
+    expect(notes).toEqual(['Reference #5 by `Fix`'])
+    expect(plans.map(plan => formatPlan(plan, repo))).toEqual([
+      'Issue #5\n  + label fixed'
+    ])
+  })
+
+  it('says when there is nothing to do', () => {
+    const { plans } = replayEvent(
+      config,
+      'issues',
+      getEventInfo('issues', {
+        issue: { number: 4, body: 'A question', user: { login: 'alice' } },
+        repository
+      }),
+      new Set(),
+      repo,
+      0,
+      1
+    )
+    expect(formatPlan(plans[0], repo)).toBe('Issue #4\n  (nothing to do)')
+  })
+})
@@ -0,0 +1,110 @@
+import { getRateLimitWait, getRetryWait, isReadRequest } from '../src/retry'
+
+// an error of the API, as thrown by Octokit
+function apiError(
+  status: number,
+  headers: { [key: string]: string } = {},
+  message = ''
+): unknown {
+  return { status, message, response: { headers } }
+}
+
+const get = { method: 'GET', url: '/repos/{owner}/{repo}/issues' }
+const post = { method: 'POST', url: '/repos/{owner}/{repo}/issues/1/labels' }
+
+describe('getRateLimitWait', () => {
+  it('waits as long as GitHub asks', () => {
+    expect(getRateLimitWait(apiError(429, { 'retry-after': '30' }))).toBe(30)
+    expect(getRateLimitWait(apiError(403, { 'retry-after': '5' }))).toBe(5)
+  })
+
+  it('waits until the primary rate limit is reset', () => {
+    const reset = Math.floor(Date.now() / 1000) + 120
+    const wait = getRateLimitWait(
+      apiError(403, {
+        'x-ratelimit-remaining': '0',
+        'x-ratelimit-reset': `${reset}`
+      })
+    )
+    expect(wait).toBeGreaterThan(110)
+    expect(wait).toBeLessThanOrEqual(120)
+    // a reset in the past still waits a little
+    expect(
+      getRateLimitWait(
+        apiError(403, {
+          'x-ratelimit-remaining': '0',
+          'x-ratelimit-reset': '1'
+        })
+      )
+    ).toBe(1)
+  })
+
+  it('waits a minute for secondary rate limits', () => {
+    expect(
+      getRateLimitWait(
+        apiError(403, {}, 'You have exceeded a secondary rate limit.')
+      )
+    ).toBe(60)
+  })
+
+  it('tells other errors from rate limits', () => {
+    expect(
+      getRateLimitWait(apiError(403, {}, 'Resource not accessible'))
+    ).toBeUndefined()
+    expect(
+      getRateLimitWait(apiError(404, { 'retry-after': '1' }))
+    ).toBeUndefined()
+    expect(getRateLimitWait(Error('network'))).toBeUndefined()
+  })
+})
+
+describe('isReadRequest', () => {
+  it('reads with GET and GraphQL queries only', () => {
+    expect(isReadRequest(get)).toBe(true)
+    expect(isReadRequest({ method: 'HEAD', url: '/' })).toBe(true)
+    expect(isReadRequest(post)).toBe(false)
+    expect(
+      isReadRequest({
+        method: 'POST',
+        url: '/graphql',
+        query: 'query($id: ID!) { node(id: $id) { id } }'
+      })
+    ).toBe(true)
+    expect(
+      isReadRequest({
+        method: 'POST',
+        url: '/graphql',
+        query: '\n  mutation($id: ID!) { minimizeComment }'
+      })
+    ).toBe(false)
+  })
+})
+
+describe('getRetryWait', () => {
+  it('retries the reads failed with a server error, waiting longer each time', () => {
+    expect([1, 2, 3, 4].map(x => getRetryWait(apiError(502), get, x))).toEqual([
+      2,
+      4,
+      8,
+      undefined
+    ])
+  })
+
+  it('does not retry the changes failed with a server error', () => {
+    expect(getRetryWait(apiError(500), post, 1)).toBeUndefined()
+  })
+
+  it('retries the requests over a rate limit, changes included', () => {
+    const error = apiError(429, { 'retry-after': '10' })
+    expect(getRetryWait(error, post, 1)).toBe(10)
+    expect(getRetryWait(error, post, 4)).toBeUndefined()
+  })
+
+  it('gives up on long rate limits and other errors', () => {
+    expect(
+      getRetryWait(apiError(429, { 'retry-after': '3600' }), get, 1)
+    ).toBeUndefined()
+    expect(getRetryWait(apiError(422), post, 1)).toBeUndefined()
+    expect(getRetryWait(apiError(404), get, 1)).toBeUndefined()
+  })
+})
@@ -0,0 +1,102 @@
+import {
+  ITemplateContext,
+  checkTemplate,
+  renderTemplate,
+  templateToRegExp
+} from '../src/template'
+
+const context: ITemplateContext = {
+  body: 'It <crashes> & "burns"',
+  title: '  Crash on Start  ',
+  author: 'alice',
+  issue_number: 12,
+  event_name: 'issues',
+  labels: ['bug', 'needs triage']
+}
+
+describe('renderTemplate', () => {
+  it('renders the variables of the context', () => {
+    expect(
+      renderTemplate(
+        '#${issue_number} by @${author} on ${event_name}: ${labels}',
+        context
+      )
+    ).toBe('#12 by @alice on issues: bug, needs triage')
+  })
+
+  it('renders capture groups', () => {
+    const matches = ['version 1.2'.match(/version (?<version>\d+)\.(\d+)/)!]
+    expect(renderTemplate('v${0,1}.${0,2} ${version}', context, matches)).toBe(
+      'v1.2 1'
+    )
+    expect(renderTemplate('${1,1}', context, matches)).toBe('')
+  })
+
+  it('keeps unknown variables and escaped placeholders', () => {
+    expect(renderTemplate('${unknown} $${title}', context)).toBe(
+      '${unknown} ${title}'
+    )
+  })
+
+  it.each([
+    ['${title | trim}', 'Crash on Start'],
+    ['${title | trim | lower}', 'crash on start'],
+    ['${title|trim|upper}', 'CRASH ON START'],
+    ['${body | html}', 'It &lt;crashes&gt; &amp; &quot;burns&quot;'],
+    ['${body | json}', 'It <crashes> & \\"burns\\"'],
+    ['${labels | url}', 'bug%2C%20needs%20triage'],
+    ['${author | markdown}', 'alice'],
+    ['${title | trim | markdown}', 'Crash on Start'],
+    ['${labels | markdown}', 'bug, needs triage']
+  ])('applies filters: %s', (template, rendered) => {
+    expect(renderTemplate(template, context)).toBe(rendered)
+  })
+
+  it('escapes markdown', () => {
+    expect(
+      renderTemplate('${body | markdown}', {
+        ...context,
+        body: '*a* _b_ [c](d) #1'
+      })
+    ).toBe('\\*a\\* \\_b\\_ \\[c\\]\\(d\\) \\#1')
+  })
+
+  it('quotes every line', () => {
+    expect(
+      renderTemplate('${body | quote}', { ...context, body: 'one\ntwo' })
+    ).toBe('> one\n> two')
+  })
+
+  it('fences code with more backticks than it contains', () => {
+    const render = (body: string): string =>
+      renderTemplate('${body | code}', { ...context, body })
+    expect(render('npm start')).toBe('`npm start`')
+    expect(render('a `b` c')).toBe('``a `b` c``')
+    expect(render('`tick`')).toBe('`` `tick` ``')
+  })
+
+  it('renders issue form fields, empty if missing', () => {
+    const fields = { Version: '2.0' }
+    expect(
+      renderTemplate('${field.version}/${field.Other}', { ...context, fields })
+    ).toBe('2.0/')
+  })
+
+  it('rejects unknown filters', () => {
+    expect(() => renderTemplate('${title | bold}', context)).toThrow(
+      'found unexpected template filter `bold`'
+    )
+    expect(() => checkTemplate('${title | bold}')).toThrow()
+    expect(() => checkTemplate('$${title | bold}')).not.toThrow()
+  })
+})
+
+describe('templateToRegExp', () => {
+  it('matches what the template renders to', () => {
+    const template = 'triage: ${author | upper}'
+    const regex = templateToRegExp(template, context)
+    expect(regex.test(renderTemplate(template, context))).toBe(true)
+    expect(regex.test('triage: bob')).toBe(false)
+    expect(templateToRegExp(template).test('triage: bob')).toBe(true)
+  })
+})
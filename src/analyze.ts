@@ -0,0 +1,1266 @@
+import * as core from '@actions/core'
+import { createHash } from 'crypto'
+import { minimatch } from 'minimatch'
+import {
+  ITemplateContext,
+  escapeRegExp,
+  isTemplate,
+  renderTemplate,
+  templateToRegExp
+} from './template'
+import { getAuthorInfo } from './event'
+import {
+  countCheckedBoxes,
+  countFormSelections,
+  getFormField,
+  getSection,
+  preprocessText
+} from './markdown'
+import {
+  CommentEvent,
+  IActionRule,
+  IAuthorCondition,
+  ICheckRequirement,
+  ICheckRule,
+  ICommentMode,
+  ICommentRule,
+  IChangedFile,
+  ICommitInfo,
+  ICondition,
+  IConditionInput,
+  IConfig,
+  IDirectiveConfig,
+  IEventInfo,
+  ILabelRule,
+  IPushConfig,
+  IRuleBase,
+  IssueState,
+  LockReason,
+  MatchTarget,
+  ModeEvent,
+  Preprocessor,
+  StateReason
+} from './types'
+
+const COMMENT_EVENTS: CommentEvent[] = [
+  'issue_comment',
+  'discussion_comment',
+  'pull_request_review',
+  'pull_request_review_comment'
+]
+
+const FIRST_TIME_ASSOCIATIONS = ['FIRST_TIMER', 'FIRST_TIME_CONTRIBUTOR']
+
+export interface IRepository {
+  owner: string
+  repo: string
+}
+
+// the actions of action rules, the first matched rule setting a field wins
+export interface IIssueActions {
+  addAssignees: string[]
+  requestReviewers: string[]
+
+  state?: IssueState
+  state_reason?: StateReason
+  // the title of the milestone
+  milestone?: string
+  lock?: LockReason | true
+  draft?: boolean
+}
+
+// a comment to post, tracked by the hidden marker it ends with
+export interface IPlannedComment {
+  body: string
+  marker: string
+  // what to do if the issue already has a comment with the marker
+  existing: ICommentMode['existing']
+}
+
+// the comments with the marker are to be deleted or minimized
+export interface IHiddenComment {
+  marker: string
+  action: 'delete' | 'minimize'
+}
+
+// a comment of an issue or discussion, as far as markers are concerned
+export interface IIssueComment {
+  id: number
+  node_id: string
+  body: string
+  // the login of the author, empty if the account was deleted
+  author: string
+}
+
+export interface IIssuePlan extends IIssueActions {
+  issue_number: number
+
+  // set for issues of another repository
+  repo?: IRepository
+
+  // set for comment events, `updateItems` then update the comment instead of the issue
+  comment_id?: number
+  comment_event?: CommentEvent
+
+  // set for discussions, which are changed with the GraphQL API
+  discussion_id?: string
+  comment_node_id?: string
+
+  // the names of the rules matched, checks included whether they pass or not
+  matchedRules: string[]
+
+  addLabels: string[]
+  removeLabels: string[]
+  addComments: IPlannedComment[]
+  hideComments: IHiddenComment[]
+  updateItems: string[]
+}
+
+// the plan applied to an issue and what it changed (or would have in a dry
+// run): the labels added and removed, the comments posted, updated and hidden
+// by their markers, the bodies set and the other actions applied
+export interface IIssueResult {
+  // `#1`, or `owner/repo#1` for issues of another repository
+  issue: string
+  plan: IIssuePlan
+  added_labels: string[]
+  removed_labels: string[]
+  created_comments: string[]
+  updated_comments: string[]
+  hidden_comments: string[]
+  updated_items: string[]
+  actions: IIssueActions
+}
+
+// the label globs of the directives found in the issue and the comment
+export interface IDirectives {
+  skip: string[]
+  remove: string[]
+}
+
+// The hidden marker identifying the comments of a comment rule in later runs.
+function getRuleCommentMarker(name: string): string {
+  return `<!-- issue-checker:comment ${encodeURIComponent(name)} -->`
+}
+
+function getCheckCommentMarker(name: string): string {
+  return `<!-- issue-checker:check ${encodeURIComponent(name)} -->`
+}
+
+// The comments with the marker posted by `login`, the account of the action.
+// Comments of other users quoting the marker are never updated or hidden.
+// Bots have no `[bot]` suffix in the GraphQL API.
+export function findPostedComments(
+  comments: IIssueComment[],
+  marker: string,
+  login: string
+): IIssueComment[] {
+  const normalize = (x: string): string =>
+    x.toLowerCase().replace(/\[bot\]$/, '')
+  return comments.filter(
+    x =>
+      x.body.includes(marker) &&
+      x.author !== '' &&
+      normalize(x.author) === normalize(login)
+  )
+}
+
+// Work out the labels and comments to be applied to the issue of an event,
+// without touching GitHub.
+export function issueRuleAnalyze(
+  labelParams: ILabelRule[],
+  commentParams: ICommentRule[],
+  actionParams: IActionRule[],
+  checkParams: ICheckRule[],
+  eventInfo: IEventInfo,
+  event_name: ModeEvent,
+  issueLabels: Set<string>,
+  includeTitle: number,
+  syncLabels: number,
+  directiveConfig?: IDirectiveConfig
+): IIssuePlan {
+  const { issue_number, comment_id, title, body, author } = eventInfo
+  const comment_event = COMMENT_EVENTS.find(x => x === event_name)
+  if (comment_event && (!comment_id || isNaN(comment_id))) {
+    throw Error(`event name is ${event_name}, but comment_id is missing`)
+  }
+
+  const templateContext: ITemplateContext = {
+    body,
+    title,
+    author,
+    issue_number,
+    event_name,
+    labels: Array.from(issueLabels),
+    fields: eventInfo.fields
+  }
+
+  const directives = getDirectives(eventInfo, directiveConfig)
+  if (core.isDebug()) {
+    core.debug(
+      `Found directives to skip [${directives.skip}] and remove [${directives.remove}]`
+    )
+  }
+
+  // labels to be added & removed
+  const [addLabelItems, removeLabelItems, matchedLabelRules] = labelRuleAnalyze(
+    labelParams,
+    eventInfo,
+    includeTitle === 1 ? ['title', 'body'] : ['body'],
+    event_name,
+    templateContext,
+    directives
+  )
+
+  // comments to be added & updated
+  const [
+    addCommentItems,
+    updateCommentItems,
+    hideCommentItems,
+    matchedCommentRules
+  ] = commentRuleAnalyze(
+    commentParams,
+    eventInfo,
+    ['body'],
+    event_name,
+    templateContext
+  )
+
+  const [actions, matchedActionRules] = actionRuleAnalyze(
+    actionParams,
+    eventInfo,
+    ['body'],
+    event_name,
+    templateContext
+  )
+
+  // the labels of checks are removed once they pass, whatever `sync-labels` is
+  const [
+    addCheckLabels,
+    removeCheckLabels,
+    addCheckComments,
+    hideCheckComments,
+    matchedCheckRules
+  ] = checkRuleAnalyze(
+    checkParams,
+    eventInfo,
+    ['body'],
+    event_name,
+    templateContext
+  )
+  for (const label of addCheckLabels) {
+    if (
+      !addLabelItems.includes(label) &&
+      !matchNames(label, directives.skip) &&
+      !matchNames(label, directives.remove)
+    ) {
+      addLabelItems.push(label)
+    }
+  }
+  const removeCheckItems = removeCheckLabels.filter(
+    label =>
+      !addLabelItems.includes(label) &&
+      !removeLabelItems.includes(label) &&
+      !matchNames(label, directives.skip)
+  )
+
+  if (core.isDebug()) {
+    core.debug(`labels have been added: [${Array.from(issueLabels)}]`)
+    core.debug(`labels to be added: [${addLabelItems.toString()}]`)
+    core.debug(
+      `labels to be removed: [${[...removeLabelItems, ...removeCheckItems].toString()}]`
+    )
+  }
+
+  return {
+    issue_number,
+    comment_id: comment_event ? comment_id : undefined,
+    comment_event,
+    discussion_id: eventInfo.discussion_id,
+    comment_node_id: eventInfo.comment_node_id,
+    matchedRules: [
+      ...matchedLabelRules,
+      ...matchedCommentRules,
+      ...matchedActionRules,
+      ...matchedCheckRules
+    ],
+    // some may have been added, remove them
+    addLabels: addLabelItems.filter(label => !issueLabels.has(label)),
+    // skip labels that have not been added, `remove` directives apply anyway
+    removeLabels: [
+      ...removeLabelItems.filter(
+        label =>
+          issueLabels.has(label) &&
+          (syncLabels || matchNames(label, directives.remove))
+      ),
+      ...removeCheckItems.filter(label => issueLabels.has(label))
+    ],
+    addComments: [...addCommentItems, ...addCheckComments],
+    hideComments: [...hideCommentItems, ...hideCheckComments],
+    updateItems: updateCommentItems,
+    ...actions
+  }
+}
+
+// an issue referenced by a closing keyword in a commit message
+export interface IIssueReference extends IRepository {
+  issue_number: number
+  keyword: string
+  // the first commit of the push referencing the issue, preferring one whose
+  // reference is honored
+  commit: ICommitInfo
+
+  // why the reference is not honored
+  skipped?: string
+}
+
+export function formatIssueReference(
+  reference: IRepository & { issue_number: number },
+  repo: IRepository
+): string {
+  return reference.owner.toLowerCase() === repo.owner.toLowerCase() &&
+    reference.repo.toLowerCase() === repo.repo.toLowerCase()
+    ? `#${reference.issue_number}`
+    : `${reference.owner}/${reference.repo}#${reference.issue_number}`
+}
+
+// Find the issues referenced by the commit messages of a push, e.g.
+// `fixes #1`, `closes owner/repo#2` or `resolves https://github.com/owner/repo/issues/3`.
+export function getIssueReferences(
+  eventInfo: IEventInfo,
+  pushConfig: IPushConfig,
+  repo: IRepository
+): IIssueReference[] {
+  const keywords = pushConfig.keywords.map(escapeRegExp).join('|')
+  const pattern = new RegExp(
+    `\\b(${keywords}):?\\s+(?:(?:([\\w.-]+)\\/([\\w.-]+))?#(\\d+)|https?:\\/\\/[^\\s/]+\\/([\\w.-]+)\\/([\\w.-]+)\\/issues\\/(\\d+))\\b`,
+    'gi'
+  )
+  const branch = eventInfo.head_branch
+  const branchSkipped =
+    pushConfig.branches.length === 0 ||
+    (branch !== '' && pushConfig.branches.some(glob => minimatch(branch, glob)))
+      ? undefined
+      : `\`${branch || 'the pushed ref'}\` is not one of the branches`
+
+  const references: IIssueReference[] = []
+  for (const commit of eventInfo.commits) {
+    for (const match of commit.message.matchAll(pattern)) {
+      const reference: IIssueReference = {
+        owner: match[2] ?? match[5] ?? repo.owner,
+        repo: match[3] ?? match[6] ?? repo.repo,
+        issue_number: parseInt(match[4] ?? match[7]),
+        keyword: match[1],
+        commit
+      }
+      const formatted = formatIssueReference(reference, repo)
+      const index = references.findIndex(
+        x => formatIssueReference(x, repo) === formatted
+      )
+      if (index !== -1 && references[index].skipped === undefined) {
+        continue
+      }
+      if (branchSkipped) {
+        reference.skipped = branchSkipped
+      } else if (
+        !pushConfig.cross_repository &&
+        formatted !== `#${reference.issue_number}`
+      ) {
+        reference.skipped = 'cross-repository references are disabled'
+      } else if (
+        pushConfig.when !== undefined &&
+        checkCondition(pushConfig.when, {
+          body: commit.message,
+          author_association: eventInfo.author_association,
+          files: [],
+          fields: {},
+          authors: {
+            ...eventInfo.authors,
+            commit_author: getAuthorInfo(commit.author)
+          },
+          team_members: eventInfo.team_members
+        }) === false
+      ) {
+        reference.skipped = `commit ${commit.sha.slice(0, 7)} does not match \`when\``
+      }
+      // a later commit matching `when` honors a skipped reference
+      if (index === -1) {
+        references.push(reference)
+      } else if (reference.skipped === undefined) {
+        references[index] = reference
+      }
+    }
+  }
+  return references
+}
+
+// The same change pushed again, force-pushed or cherry-picked to another
+// branch gets the same marker, so that the issue is commented only once.
+function getPushCommentMarker(commit: ICommitInfo): string {
+  const message = commit.message
+    .replace(/^\(cherry picked from commit [0-9a-f]+\)$/gm, '')
+    .trim()
+  const hash = createHash('sha1')
+    .update(`${commit.author || commit.author_name}\n${message}`)
+    .digest('hex')
+    .slice(0, 12)
+  return `<!-- issue-checker:push ${hash} -->`
+}
+
+function renderPushComment(
+  template: string,
+  reference: IIssueReference,
+  eventInfo: IEventInfo
+): IPlannedComment {
+  const { commit } = reference
+  const context: ITemplateContext = {
+    body: commit.message,
+    title: '',
+    author: commit.author,
+    issue_number: reference.issue_number,
+    event_name: eventInfo.event_name,
+    labels: [],
+    variables: {
+      sha: commit.sha,
+      short_sha: commit.sha.slice(0, 7),
+      message: commit.message.split('\n')[0],
+      author_name: commit.author_name,
+      // a name must not be taken for a login, which would ping someone else
+      mention: commit.author ? `@${commit.author}` : commit.author_name,
+      commit_url: commit.url,
+      branch: eventInfo.head_branch,
+      compare_url: eventInfo.compare_url,
+      keyword: reference.keyword
+    }
+  }
+  const marker = getPushCommentMarker(commit)
+  return {
+    body: `${renderTemplate(template, context)}\n\n${marker}`,
+    marker,
+    existing: 'keep'
+  }
+}
+
+export function pushRuleAnalyze(
+  references: IIssueReference[],
+  pushConfig: IPushConfig,
+  eventInfo: IEventInfo,
+  repo: IRepository
+): IIssuePlan[] {
+  return references
+    .filter(reference => reference.skipped === undefined)
+    .map(reference => ({
+      issue_number: reference.issue_number,
+      repo:
+        formatIssueReference(reference, repo) === `#${reference.issue_number}`
+          ? undefined
+          : { owner: reference.owner, repo: reference.repo },
+      matchedRules: [],
+      addLabels: pushConfig.add_labels,
+      removeLabels: pushConfig.remove_labels,
+      addComments:
+        pushConfig.comment !== undefined
+          ? [renderPushComment(pushConfig.comment, reference, eventInfo)]
+          : [],
+      hideComments: [],
+      updateItems: [],
+      addAssignees: [],
+      requestReviewers: [],
+      state: pushConfig.state,
+      milestone: pushConfig.milestone
+    }))
+}
+
+export function commentRuleAnalyze(
+  itemMap: ICommentRule[],
+  eventInfo: IEventInfo,
+  defaultTargets: MatchTarget[],
+  event_name: ModeEvent,
+  templateContext: ITemplateContext
+): [IPlannedComment[], string[], IHiddenComment[], string[]] {
+  const addItems: IPlannedComment[] = []
+  const addItemNames: Set<string> = new Set()
+  const matchedItemNames: string[] = []
+  const hideItems: IHiddenComment[] = []
+  // the updates are applied one after another to the body of the event
+  let updatedBody = eventInfo.body
+
+  for (const itemParams of itemMap) {
+    const item = itemParams.content ?? ''
+    const itemName = itemParams.name
+    const mode = itemParams.mode
+    const skipIf = itemParams.skip_if
+    const modeType = mode.type
+    const needComment = mode.event === true || mode.event.includes(event_name)
+
+    if (skipIf.filter(x => addItemNames.has(x)).length > 0) {
+      // 此项的 skip-if 中包含待添加的项，直接跳过
+      if (core.isDebug()) {
+        core.debug(
+          `Skip item, because skip_if \`${skipIf}\` contains some item in added items \`${Array.from(addItemNames)}\``
+        )
+      }
+      continue
+    }
+
+    if (!needComment) {
+      continue
+    }
+
+    const marker = getRuleCommentMarker(itemName)
+    const matches = checkRule(itemParams, eventInfo, defaultTargets)
+    if (matches === false) {
+      // the comment of an earlier run is outdated
+      if (modeType === 'add' && mode.unmatched !== 'keep') {
+        hideItems.push({ marker, action: mode.unmatched })
+      }
+      continue
+    }
+    matchedItemNames.push(itemName)
+    // item: "...${i,j}...${title}..." -> "...${matches[i][j]}...${templateContext.title}..."
+    const itemBody = renderTemplate(item, templateContext, matches)
+
+    if (modeType === 'add') {
+      addItemNames.add(itemName)
+      if (itemBody !== '') {
+        addItems.push({
+          body: `${itemBody}\n\n${marker}`,
+          marker,
+          existing: mode.existing
+        })
+      }
+    } else if (modeType === 'update') {
+      if (itemBody !== '') {
+        updatedBody = updateBody(updatedBody, itemBody, mode, itemName)
+      }
+    }
+  }
+
+  // nothing to update if running the rules again
+  const updateItems = updatedBody !== eventInfo.body ? [updatedBody] : []
+  return [addItems, updateItems, hideItems, matchedItemNames]
+}
+
+// The labels to add and remove, and the checklist comments to post and
+// delete, as the checks of the issue body fail or pass. A check whose rule
+// does not match passes.
+export function checkRuleAnalyze(
+  itemMap: ICheckRule[],
+  eventInfo: IEventInfo,
+  defaultTargets: MatchTarget[],
+  event_name: ModeEvent,
+  templateContext: ITemplateContext
+): [string[], string[], IPlannedComment[], IHiddenComment[], string[]] {
+  const addItems: string[] = []
+  const removeItems: string[] = []
+  const commentItems: IPlannedComment[] = []
+  const hideItems: IHiddenComment[] = []
+  const failedItemNames: Set<string> = new Set()
+  const matchedItemNames: string[] = []
+
+  for (const itemParams of itemMap) {
+    const itemName = itemParams.name
+    const mode = itemParams.mode
+    const skipIf = itemParams.skip_if
+    const label = itemParams.label
+
+    if (skipIf.filter(x => failedItemNames.has(x)).length > 0) {
+      // 此项的 skip-if 中包含未通过的项，直接跳过
+      if (core.isDebug()) {
+        core.debug(
+          `Skip item, because skip_if \`${skipIf}\` contains some item in failed items \`${Array.from(failedItemNames)}\``
+        )
+      }
+      continue
+    }
+
+    if (mode.event !== true && !mode.event.includes(event_name)) {
+      continue
+    }
+
+    const marker = getCheckCommentMarker(itemName)
+    const matches = checkRule(itemParams, eventInfo, defaultTargets)
+    if (matches !== false) matchedItemNames.push(itemName)
+    const missing =
+      matches === false
+        ? []
+        : itemParams.requirements.flatMap(requirement => {
+            const message = checkRequirement(
+              requirement,
+              eventInfo,
+              itemParams.preprocess ?? []
+            )
+            return message === undefined ? [] : [requirement.message ?? message]
+          })
+    if (core.isDebug()) {
+      core.debug(`check \`${itemName}\` misses [${missing}]`)
+    }
+
+    if (missing.length === 0) {
+      if (label !== '' && !removeItems.includes(label)) removeItems.push(label)
+      hideItems.push({ marker, action: 'delete' })
+      continue
+    }
+    failedItemNames.add(itemName)
+    if (label !== '' && !addItems.includes(label)) addItems.push(label)
+    const header = renderTemplate(
+      itemParams.content ?? '',
+      templateContext,
+      matches || []
+    )
+    if (header !== '') {
+      const checklist = missing.map(message => `- [ ] ${message}`).join('\n')
+      commentItems.push({
+        body: `${header}\n\n${checklist}\n\n${marker}`,
+        marker,
+        existing: 'update'
+      })
+    }
+  }
+
+  // a label is kept while some check adding it fails
+  return [
+    addItems,
+    removeItems.filter(item => !addItems.includes(item)),
+    commentItems,
+    hideItems,
+    matchedItemNames
+  ]
+}
+
+// The item of the checklist if the requirement is missing from the issue body.
+function checkRequirement(
+  requirement: ICheckRequirement,
+  eventInfo: IEventInfo,
+  preprocessors: Preprocessor[]
+): string | undefined {
+  const { heading, field, min_length, checked } = requirement
+  const text =
+    heading !== undefined
+      ? getSection(eventInfo.issue_body, heading)
+      : field !== undefined
+        ? getFormField(eventInfo.fields, field)
+        : eventInfo.issue_body
+  const name = heading ?? field
+  const where = name === undefined ? '' : ` in \`${name}\``
+  if (text === undefined) {
+    return heading !== undefined
+      ? `Add the \`${heading}\` section`
+      : `Fill in \`${field}\``
+  }
+
+  const preprocessed = preprocessText(
+    text,
+    preprocessors,
+    eventInfo.templates
+  ).trim()
+  if (preprocessed.length < min_length) {
+    if (min_length > 1) {
+      return `Write at least ${min_length} characters${where}`
+    }
+    return name === undefined ? `Describe the issue` : `Fill in \`${name}\``
+  }
+  const count =
+    field !== undefined
+      ? countFormSelections(eventInfo.issue_body, field)
+      : countCheckedBoxes(preprocessed)
+  if (count < checked) {
+    return `Check at least ${checked} ${checked === 1 ? 'box' : 'boxes'}${where}`
+  }
+  return undefined
+}
+
+// `<!-- issue-checker:begin name -->` and `<!-- issue-checker:end name -->`
+function getSectionMarkers(name: string): [string, string] {
+  return [
+    `<!-- issue-checker:begin ${name} -->`,
+    `<!-- issue-checker:end ${name} -->`
+  ]
+}
+
+// Put the content into the body as `mode.update` says, the result being the
+// same if the content is put again.
+function updateBody(
+  body: string,
+  content: string,
+  mode: ICommentMode,
+  name: string
+): string {
+  if (mode.update === 'replace') {
+    return content
+  }
+  const [begin, end] = getSectionMarkers(mode.section ?? name)
+  const section = `${begin}\n${content}\n${end}`
+  const start = body.indexOf(begin)
+  const stop = start === -1 ? -1 : body.indexOf(end, start + begin.length)
+  if (stop !== -1) {
+    return body.slice(0, start) + section + body.slice(stop + end.length)
+  }
+  switch (mode.update) {
+    case 'append':
+      return body === '' ? section : `${body}\n\n${section}`
+    case 'prepend':
+      return body === '' ? section : `${section}\n\n${body}`
+    default:
+      // replace-section, the body has no such section
+      return body
+  }
+}
+
+export function actionRuleAnalyze(
+  itemMap: IActionRule[],
+  eventInfo: IEventInfo,
+  defaultTargets: MatchTarget[],
+  event_name: ModeEvent,
+  templateContext: ITemplateContext
+): [IIssueActions, string[]] {
+  const actions: IIssueActions = { addAssignees: [], requestReviewers: [] }
+  const addItemNames: Set<string> = new Set()
+  const pushRendered = (
+    items: string[],
+    templates: string[],
+    matches: RegExpMatchArray[]
+  ): void => {
+    for (const template of templates) {
+      const item = renderTemplate(template, templateContext, matches)
+      if (item !== '' && !items.includes(item)) items.push(item)
+    }
+  }
+
+  for (const itemParams of itemMap) {
+    const { mode, skip_if: skipIf } = itemParams
+
+    if (skipIf.filter(x => addItemNames.has(x)).length > 0) {
+      if (core.isDebug()) {
+        core.debug(
+          `Skip item, because skip_if \`${skipIf}\` contains some item in matched items \`${Array.from(addItemNames)}\``
+        )
+      }
+      continue
+    }
+
+    if (mode.event !== true && !mode.event.includes(event_name)) {
+      continue
+    }
+
+    const matches = checkRule(itemParams, eventInfo, defaultTargets)
+    if (matches === false) {
+      continue
+    }
+    addItemNames.add(itemParams.name)
+
+    pushRendered(actions.addAssignees, itemParams.assignees, matches)
+    if (eventInfo.is_pull_request) {
+      pushRendered(actions.requestReviewers, itemParams.reviewers, matches)
+      actions.draft ??= itemParams.draft
+    }
+    if (itemParams.milestone !== undefined) {
+      const milestone = renderTemplate(
+        itemParams.milestone,
+        templateContext,
+        matches
+      )
+      if (milestone !== '') actions.milestone ??= milestone
+    }
+    if (actions.state === undefined && itemParams.state !== undefined) {
+      actions.state = itemParams.state
+      actions.state_reason = itemParams.state_reason
+    }
+    actions.lock ??= itemParams.lock
+  }
+
+  return [actions, Array.from(addItemNames)]
+}
+
+export function labelRuleAnalyze(
+  itemMap: ILabelRule[],
+  eventInfo: IEventInfo,
+  defaultTargets: MatchTarget[],
+  event_name: ModeEvent,
+  templateContext: ITemplateContext,
+  directives: IDirectives = { skip: [], remove: [] }
+): [string[], string[], string[]] {
+  const addItems: string[] = []
+  const addItemNames: Set<string> = new Set()
+  const matchedItemNames: string[] = []
+  const removeItems: string[] = []
+  const pushRemoveItems = (items: string[]): void => {
+    for (const item of items) {
+      if (!removeItems.includes(item)) removeItems.push(item)
+    }
+  }
+  // labels with a directive are left to it
+  const hasDirective = (label: string): boolean =>
+    matchNames(label, directives.skip) || matchNames(label, directives.remove)
+
+  for (const itemParams of itemMap) {
+    const item = itemParams.content ?? ''
+    const itemName = itemParams.name
+    const mode = itemParams.mode
+    const skipIf = itemParams.skip_if
+    const removeIf = itemParams.remove_if
+    const needAdd =
+      mode.add !== undefined &&
+      (mode.add === true || mode.add.includes(event_name))
+    const needRemove =
+      mode.remove !== undefined &&
+      (mode.remove === true || mode.remove.includes(event_name))
+
+    if (core.isDebug()) {
+      core.debug(
+        `item \`${itemName}\` (needAdd = ${needAdd}, needRemove = ${needRemove}, mode = ${JSON.stringify(mode)})`
+      )
+    }
+
+    if (!isTemplate(item) && item !== '' && hasDirective(item)) {
+      if (core.isDebug()) {
+        core.debug(`Skip item, because a directive is given for \`${item}\``)
+      }
+      continue
+    }
+
+    if (skipIf.filter(x => addItemNames.has(x)).length > 0) {
+      // 此项的 skip-if 中包含待添加的项，直接跳过
+      if (core.isDebug()) {
+        core.debug(
+          `Skip item, because skip_if \`${skipIf}\` contains some item in added items \`${Array.from(addItemNames)}\``
+        )
+      }
+      continue
+    }
+
+    if (removeIf.filter(x => addItemNames.has(x)).length > 0) {
+      // 此项的 remove-if 中包含待添加的项，直接删除，优先级高于 needRemove
+      if (item !== '') {
+        if (core.isDebug()) {
+          core.debug(
+            `Remove item, because remove_if \`${removeIf}\` contains some item in added items \`${Array.from(addItemNames)}\``
+          )
+        }
+        pushRemoveItems(getRenderedLabels(item, templateContext))
+      }
+      continue
+    }
+
+    const matches = checkRule(itemParams, eventInfo, defaultTargets)
+    if (matches !== false) {
+      matchedItemNames.push(itemName)
+      if (needAdd) {
+        const label = renderTemplate(item, templateContext, matches)
+        if (label !== '' && hasDirective(label)) {
+          continue
+        }
+        if (label !== '' && !addItems.includes(label)) {
+          addItems.push(label)
+        }
+        addItemNames.add(itemName)
+        if (needRemove && label !== item) {
+          // labels rendered from the same content by earlier runs are stale
+          pushRemoveItems(
+            getRenderedLabels(item, templateContext).filter(x => x !== label)
+          )
+        }
+      }
+    } else if (needRemove && item !== '') {
+      pushRemoveItems(getRenderedLabels(item, templateContext))
+    }
+  }
+
+  pushRemoveItems(
+    templateContext.labels.filter(label => matchNames(label, directives.remove))
+  )
+
+  // 返回需要添加的项和需要删除的项，删除优先级高于添加
+  return [
+    addItems.filter(item => !removeItems.includes(item)),
+    removeItems.filter(item => !matchNames(item, directives.skip)),
+    matchedItemNames
+  ]
+}
+
+// The directives of the issue body, and of the comment on comment events,
+// whose authors are allowed to use them.
+export function getDirectives(
+  eventInfo: IEventInfo,
+  directiveConfig?: IDirectiveConfig
+): IDirectives {
+  const directives: IDirectives = { skip: [], remove: [] }
+  if (directiveConfig === undefined) {
+    return directives
+  }
+  const sources: [string, string][] = [
+    [eventInfo.body, eventInfo.author_association]
+  ]
+  if (eventInfo.comment_id !== undefined) {
+    sources.push([eventInfo.issue_body, eventInfo.issue_author_association])
+  }
+
+  const syntax = toRegExp(directiveConfig.syntax)
+  const regex = new RegExp(
+    syntax.source,
+    syntax.flags.includes('g') ? syntax.flags : `${syntax.flags}g`
+  )
+  for (const [text, author_association] of sources) {
+    if (
+      directiveConfig.author_association.length > 0 &&
+      !directiveConfig.author_association.some(regEx =>
+        toRegExp(regEx).test(author_association)
+      )
+    ) {
+      continue
+    }
+    for (const match of text.matchAll(regex)) {
+      const action = match.groups?.action?.toLowerCase()
+      const label = match.groups?.label?.trim()
+      if (label && (action === 'skip' || action === 'remove')) {
+        directives[action].push(label)
+      }
+    }
+  }
+  return directives
+}
+
+// Whether the name is one of the names, or matches one of the globs, e.g. of
+// the labels of directives. Labels and logins are case-insensitive.
+function matchNames(name: string, names: string[]): boolean {
+  return names.some(
+    x =>
+      x.toLowerCase() === name.toLowerCase() ||
+      minimatch(name, x, { nocase: true })
+  )
+}
+
+// Whether a label may be added or removed by the configuration, or is defined
+// by it.
+export function isLabelReferenced(config: IConfig, label: string): boolean {
+  const name = label.toLowerCase()
+  const contents = [
+    ...config.label_definitions.flatMap(x => [x.name, ...x.aliases]),
+    ...config.labels.map(rule => rule.content ?? ''),
+    ...config.checks.map(rule => rule.label),
+    ...config.push.add_labels,
+    ...config.push.remove_labels
+  ]
+  return contents.some(content =>
+    isTemplate(content)
+      ? templateToRegExp(content).test(label)
+      : content.toLowerCase() === name
+  )
+}
+
+// the labels that the content of a label rule has been rendered to
+function getRenderedLabels(
+  item: string,
+  templateContext: ITemplateContext
+): string[] {
+  if (!isTemplate(item)) {
+    return [item]
+  }
+  const pattern = templateToRegExp(item, templateContext)
+  return templateContext.labels.filter(label => pattern.test(label))
+}
+
+// `/pattern/flags` or a bare pattern
+export function toRegExp(regEx: string): RegExp {
+  const isRegEx = regEx.match(/^\/(.+)\/(.*)$/)
+  return isRegEx ? new RegExp(isRegEx[1], isRegEx[2]) : new RegExp(regEx)
+}
+
+// the text of the targets, each preprocessed, joined by blank lines
+export function getMatchText(
+  eventInfo: IEventInfo,
+  targets: MatchTarget[],
+  preprocessors: Preprocessor[] = []
+): string {
+  const texts: { [key in MatchTarget]: string } = {
+    title: eventInfo.title,
+    body: eventInfo.body,
+    issue_body: eventInfo.issue_body,
+    comment: eventInfo.comment_body,
+    head_branch: eventInfo.head_branch,
+    base_branch: eventInfo.base_branch,
+    commits: eventInfo.commit_messages.join('\n\n')
+  }
+  return targets
+    .map(target =>
+      preprocessText(texts[target], preprocessors, eventInfo.templates)
+    )
+    .join('\n\n')
+}
+
+// The matches of the regexes of a rule, or false if the rule does not match.
+// Matches of `when` follow those of `regexes`.
+function checkRule(
+  rule: IRuleBase,
+  eventInfo: IEventInfo,
+  defaultTargets: MatchTarget[]
+): RegExpMatchArray[] | false {
+  const input: IConditionInput = {
+    body: getMatchText(
+      eventInfo,
+      rule.targets ?? defaultTargets,
+      rule.preprocess
+    ),
+    author_association: eventInfo.author_association,
+    files: eventInfo.changed_files,
+    fields: eventInfo.fields,
+    authors: eventInfo.authors,
+    team_members: eventInfo.team_members
+  }
+  if (core.isDebug() && rule.preprocess?.length) {
+    core.debug(
+      `rule \`${rule.name}\` is matched against ${JSON.stringify(input.body)} (preprocessed with ${rule.preprocess.join(', ')})`
+    )
+  }
+  if (
+    !checkAuthorAssociation(input.author_association, rule.author_association)
+  ) {
+    return false
+  }
+  const matches = checkRegexes(input.body, rule.regexes)
+  if (matches === false || rule.when === undefined) {
+    return matches
+  }
+  const whenMatches = checkCondition(rule.when, input)
+  return whenMatches === false ? false : [...matches, ...whenMatches]
+}
+
+// The matches of the regexes the condition is satisfied with, or false if it
+// is not. Matches under `not` are dropped, `any` keeps the first branch matched.
+export function checkCondition(
+  condition: ICondition,
+  input: IConditionInput
+): RegExpMatchArray[] | false {
+  switch (condition.type) {
+    case 'all': {
+      const matches: RegExpMatchArray[] = []
+      for (const subCondition of condition.conditions) {
+        const subMatches = checkCondition(subCondition, input)
+        if (subMatches === false) {
+          return false
+        }
+        matches.push(...subMatches)
+      }
+      return matches
+    }
+    case 'any':
+      for (const subCondition of condition.conditions) {
+        const subMatches = checkCondition(subCondition, input)
+        if (subMatches !== false) {
+          return subMatches
+        }
+      }
+      return false
+    case 'not':
+      return checkCondition(condition.condition, input) === false ? [] : false
+    case 'regex': {
+      const matched = input.body.match(toRegExp(condition.regex))
+      return matched ? [matched] : false
+    }
+    case 'author_association':
+      return checkAuthorAssociation(input.author_association, [condition.regex])
+        ? []
+        : false
+    case 'field': {
+      const value = getFormField(input.fields, condition.field)
+      if (value === undefined) {
+        return false
+      }
+      if (condition.match === 'regex') {
+        const matched = value.match(toRegExp(condition.regex))
+        return matched ? [matched] : false
+      }
+      const values = condition.match === 'in' ? value.split(', ') : [value]
+      return values.some(x => condition.values.includes(x)) ? [] : false
+    }
+    case 'author':
+      return checkAuthor(condition, input) ? [] : false
+    case 'files': {
+      const { match, globs, status } = condition
+      const files = input.files.filter(
+        file => status === undefined || status.includes(file.status)
+      )
+      const matchFile = (file: IChangedFile): boolean =>
+        globs.some(
+          glob =>
+            minimatch(file.filename, glob, { dot: true }) ||
+            (file.previous_filename !== undefined &&
+              minimatch(file.previous_filename, glob, { dot: true }))
+        )
+      const matched =
+        match === 'all'
+          ? files.length > 0 && files.every(matchFile)
+          : files.some(matchFile)
+      return matched ? [] : false
+    }
+  }
+}
+
+// the conditions of the tree, the root first
+function flattenCondition(condition: ICondition): ICondition[] {
+  if (condition.type === 'all' || condition.type === 'any') {
+    return [condition, ...condition.conditions.flatMap(flattenCondition)]
+  }
+  if (condition.type === 'not') {
+    return [condition, ...flattenCondition(condition.condition)]
+  }
+  return [condition]
+}
+
+// whether some rule has a condition of the given type
+export function usesCondition(
+  rules: IRuleBase[],
+  type: ICondition['type']
+): boolean {
+  return rules.some(
+    rule =>
+      rule.when !== undefined &&
+      flattenCondition(rule.when).some(x => x.type === type)
+  )
+}
+
+// the teams referenced by the author conditions of the rules and of `push`
+export function getReferencedTeams(config: IConfig): string[] {
+  const rules = [
+    ...config.labels,
+    ...config.comments,
+    ...config.actions,
+    ...config.checks
+  ]
+  const conditions = [...rules.map(rule => rule.when), config.push.when]
+  const teams: Set<string> = new Set()
+  for (const condition of conditions) {
+    if (condition === undefined) continue
+    for (const x of flattenCondition(condition)) {
+      if (x.type === 'author') x.team?.forEach(team => teams.add(team))
+    }
+  }
+  return Array.from(teams)
+}
+
+function checkRegexes(
+  body: string,
+  regexes: string[]
+): RegExpMatchArray[] | false {
+  const matches: RegExpMatchArray[] = []
+
+  // If several regex entries are provided we require all of them to match for the label to be applied.
+  for (const regEx of regexes) {
+    const matched = body.match(toRegExp(regEx))
+
+    if (!matched) {
+      return false
+    }
+    matches.push(matched)
+  }
+  return matches
+}
+
+function checkAuthor(
+  condition: IAuthorCondition,
+  input: IConditionInput
+): boolean {
+  const author = input.authors[condition.role]
+  if (author === undefined || author.login === '') {
+    return false
+  }
+  const { login, not_login, team, bot, first_time, association } = condition
+  return (
+    (login === undefined || matchNames(author.login, login)) &&
+    (not_login === undefined || !matchNames(author.login, not_login)) &&
+    (team === undefined ||
+      team.some(x =>
+        (input.team_members[x] ?? []).some(
+          member => member.toLowerCase() === author.login.toLowerCase()
+        )
+      )) &&
+    (bot === undefined || author.bot === bot) &&
+    (first_time === undefined ||
+      FIRST_TIME_ASSOCIATIONS.includes(author.association) === first_time) &&
+    (association === undefined ||
+      toRegExp(association).test(author.association))
+  )
+}
+
+function checkAuthorAssociation(
+  author_association: string,
+  regexes: string[]
+): boolean {
+  let matched
+
+  // If several regex entries are provided we require all of them to match for the label to be applied.
+  for (const regEx of regexes) {
+    matched = author_association.match(toRegExp(regEx))
+
+    if (!matched) {
+      return false
+    }
+  }
+  return true
+}
+
+// A line for each change the plan makes.
+export function describePlan(plan: IIssuePlan): string[] {
+  const lines: string[] = []
+  if (plan.addLabels.length > 0) {
+    lines.push(`add labels ${plan.addLabels.join(', ')}`)
+  }
+  if (plan.removeLabels.length > 0) {
+    lines.push(`remove labels ${plan.removeLabels.join(', ')}`)
+  }
+  if (plan.addComments.length > 0) {
+    lines.push(`post ${plan.addComments.length} comments unless posted earlier`)
+  }
+  if (plan.hideComments.length > 0) {
+    lines.push(`hide the comments of ${plan.hideComments.length} rules if any`)
+  }
+  if (plan.updateItems.length > 0) lines.push('update the body')
+  if (plan.addAssignees.length > 0) {
+    lines.push(`assign ${plan.addAssignees.join(', ')}`)
+  }
+  if (plan.requestReviewers.length > 0) {
+    lines.push(`request reviews from ${plan.requestReviewers.join(', ')}`)
+  }
+  if (plan.milestone !== undefined) {
+    lines.push(`set milestone ${plan.milestone}`)
+  }
+  if (plan.state !== undefined) lines.push(`set state ${plan.state}`)
+  if (plan.lock !== undefined) lines.push('lock')
+  if (plan.draft !== undefined) {
+    lines.push(plan.draft ? 'convert to draft' : 'mark ready for review')
+  }
+  return lines
+}
+
+// The plan with the changes actually made, without those that failed or
+// changed nothing.
+export function appliedPlan(result: IIssueResult): IIssuePlan {
+  const { actions } = result
+  return {
+    ...result.plan,
+    addAssignees: actions.addAssignees,
+    requestReviewers: actions.requestReviewers,
+    state: actions.state,
+    state_reason: actions.state_reason,
+    milestone: actions.milestone,
+    lock: actions.lock,
+    draft: actions.draft,
+    addLabels: result.added_labels,
+    removeLabels: result.removed_labels,
+    updateItems: result.updated_items
+  }
+}
+
+// Whether the plan changed the issue, beyond the comments posted earlier.
+export function isChanged(result: IIssueResult): boolean {
+  return (
+    describePlan({
+      ...appliedPlan(result),
+      addComments: [],
+      hideComments: []
+    }).length > 0 ||
+    result.created_comments.length > 0 ||
+    result.updated_comments.length > 0 ||
+    result.hidden_comments.length > 0
+  )
+}
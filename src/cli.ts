@@ -0,0 +1,136 @@
+import * as fs from 'fs'
+import { parseArgs } from 'util'
+import { WebhookPayload } from '@actions/github/lib/interfaces'
+import { getModeEvent, loadConfig, readLocalConfig } from './config'
+import { getEventInfo } from './event'
+import {
+  formatPlan,
+  getRepository,
+  guessEventName,
+  parseChangedFiles,
+  parseCommitMessages,
+  parseLabelNames,
+  parseTeamMembers,
+  replayEvent
+} from './replay'
+
+const USAGE = `Usage: npm run replay -- --config <file> --payload <file> [options]
+
+Replay a webhook payload against a configuration and print the labels and
+comments that would be applied. No request is sent to GitHub.
+
+Options:
+  -c, --config <file>        the issue-checker configuration file
+  -p, --payload <file>       the webhook payload (JSON)
+  -e, --event <name>         the event name, deduced from the payload if omitted
+  -l, --labels <file>        the labels currently on the issue (JSON array of
+                             names or label objects), taken from the payload
+                             if omitted
+      --commits <file>       the commits of the pull request (JSON array of
+                             messages or commit objects)
+      --files <file>         the files changed by the pull request (JSON array
+                             of filenames or file objects)
+      --teams <file>         the members of the teams of author conditions
+                             (JSON object of \`org/team\` to logins)
+      --template <file>      an issue or pull request template, for rules
+                             preprocessed with \`template\` (repeatable)
+      --include-title <0|1>  same as the \`include-title\` input (default 0)
+      --sync-labels <0|1>    same as the \`sync-labels\` input (default 1)
+      --json                 print the plan as JSON
+  -h, --help                 show this message
+`
+
+function readJson(path: string): unknown {
+  return JSON.parse(fs.readFileSync(path, 'utf8'))
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      config: { type: 'string', short: 'c' },
+      payload: { type: 'string', short: 'p' },
+      event: { type: 'string', short: 'e' },
+      labels: { type: 'string', short: 'l' },
+      commits: { type: 'string' },
+      files: { type: 'string' },
+      teams: { type: 'string' },
+      template: { type: 'string', multiple: true },
+      'include-title': { type: 'string', default: '0' },
+      'sync-labels': { type: 'string', default: '1' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  })
+
+  if (values.help) {
+    process.stdout.write(USAGE)
+    return
+  }
+  if (!values.config || !values.payload) {
+    throw Error(`both --config and --payload are required\n\n${USAGE}`)
+  }
+
+  const includeTitle = parseInt(values['include-title'] ?? '0')
+  const syncLabels = parseInt(values['sync-labels'] ?? '1')
+  const payload = readJson(values.payload) as WebhookPayload
+  const _event_name = values.event ?? guessEventName(payload)
+  const event_name = getModeEvent(_event_name)
+  if (event_name === undefined) {
+    throw Error(`could not handle event \`${_event_name}\``)
+  }
+
+  const config = await loadConfig(
+    { path: values.config },
+    readLocalConfig,
+    syncLabels
+  )
+  const eventInfo = getEventInfo(event_name, payload)
+  if (values.commits) {
+    eventInfo.commit_messages = parseCommitMessages(readJson(values.commits))
+  }
+  if (values.files) {
+    eventInfo.changed_files = parseChangedFiles(readJson(values.files))
+  }
+  if (values.teams) {
+    eventInfo.team_members = parseTeamMembers(readJson(values.teams))
+  }
+  if (values.template) {
+    eventInfo.templates = values.template.map(file =>
+      fs.readFileSync(file, 'utf8')
+    )
+  }
+
+  const issueLabels = parseLabelNames(
+    values.labels
+      ? readJson(values.labels)
+      : ((payload.issue ?? payload.pull_request ?? payload.discussion)
+          ?.labels ?? [])
+  )
+  const repo = getRepository(payload)
+  const { plans, notes } = replayEvent(
+    config,
+    event_name,
+    eventInfo,
+    issueLabels,
+    repo,
+    includeTitle,
+    syncLabels
+  )
+
+  if (values.json) {
+    process.stdout.write(`${JSON.stringify(plans, null, 2)}\n`)
+  } else {
+    process.stdout.write(`Event: ${event_name}\n`)
+    for (const note of notes) process.stdout.write(`${note}\n`)
+    for (const plan of plans) {
+      process.stdout.write(`${formatPlan(plan, repo)}\n`)
+    }
+  }
+}
+
+main().catch(error => {
+  process.stderr.write(
+    `${error instanceof Error ? error.message : String(error)}\n`
+  )
+  process.exitCode = 1
+})
@@ -0,0 +1,2095 @@
+import * as fs from 'fs'
+import { Document, LineCounter, isMap, isScalar, parseDocument } from 'yaml'
+import { toRegExp } from './analyze'
+import { checkTemplate, renderVariables } from './template'
+import {
+  IActionMode,
+  IActionRule,
+  IAuthorCondition,
+  AuthorRole,
+  ICheckRequirement,
+  ICheckRule,
+  ICommentMode,
+  ICommentRule,
+  FileStatus,
+  IChangedFile,
+  ICondition,
+  IConfig,
+  IDirectiveConfig,
+  ILabelDefinition,
+  ILabelMode,
+  ILabelRule,
+  IPushConfig,
+  IRuleBase,
+  LockReason,
+  MatchTarget,
+  ModeEvent,
+  Preprocessor,
+  StateReason,
+  UpdateMode
+} from './types'
+
+interface ICondPred {
+  cond: (x: unknown) => boolean
+  pred: (x: unknown) => unknown
+
+  // what `cond` accepts, for error messages
+  expected: string
+}
+
+// the location of a value in the configuration, e.g. ['labels', 3, 'regexes', 0]
+export type ConfigPath = (string | number)[]
+
+// a configuration file, of the current repository if `repo` is omitted
+export interface IConfigSource {
+  owner?: string
+  repo?: string
+  path: string
+  // the default branch if omitted
+  ref?: string
+}
+
+// a rule, with the item it is parsed from and the index of that item in its
+// section, shared by the rules expanded from a `matrix`
+interface IParsedRule<T> {
+  rule: T
+  item: unknown
+  index: number
+}
+
+interface IConfigFile {
+  source: IConfigSource
+  document: Document
+  lineCounter: LineCounter
+  configObject: { [key: string]: unknown }
+}
+
+export class ConfigError extends Error {
+  path: ConfigPath
+
+  // the configuration file, set by `loadConfig`
+  file?: string
+
+  // the name of the rule the error is found in
+  rule?: string
+
+  // 1-based, set by `parseConfig`
+  line?: number
+  column?: number
+
+  constructor(message: string, path: ConfigPath = []) {
+    super(message)
+    this.name = 'ConfigError'
+    this.path = path
+  }
+}
+
+const MODE_EVENTS: ModeEvent[] = [
+  'pull_request',
+  'pull_request_target',
+  'issues',
+  'issue_comment',
+  'push',
+  'discussion',
+  'discussion_comment',
+  'pull_request_review',
+  'pull_request_review_comment'
+]
+
+const MATCH_TARGETS: MatchTarget[] = [
+  'title',
+  'body',
+  'issue_body',
+  'comment',
+  'head_branch',
+  'base_branch',
+  'commits'
+]
+
+const PREPROCESSORS: Preprocessor[] = [
+  'template',
+  'code_blocks',
+  'html_comments',
+  'quotes',
+  'whitespace',
+  'lowercase'
+]
+
+const FILE_STATUSES: FileStatus[] = [
+  'added',
+  'removed',
+  'modified',
+  'renamed',
+  'copied',
+  'changed',
+  'unchanged'
+]
+
+// GitHub's closing keywords
+const DEFAULT_PUSH_KEYWORDS = [
+  'close',
+  'closes',
+  'closed',
+  'fix',
+  'fixes',
+  'fixed',
+  'resolve',
+  'resolves',
+  'resolved'
+]
+
+const DEFAULT_PUSH_COMMENT =
+  'Referenced by ${commit_url} on `${branch}` by ${mention}:\n\n${message | quote}\n\n${compare_url}'
+
+const PUSH_FIELDS = [
+  'keywords',
+  'when',
+  'add-labels',
+  'remove-labels',
+  'branches',
+  'cross-repository',
+  'comment',
+  'state',
+  'milestone'
+]
+
+const AUTHOR_CONDITION_FIELDS = [
+  'login',
+  'not-login',
+  'team',
+  'bot',
+  'first-time',
+  'association'
+]
+
+const TEAM_REGEX = /^[\w.-]+\/[\w.-]+$/
+
+const UPDATE_MODES: UpdateMode[] = [
+  'replace',
+  'append',
+  'prepend',
+  'replace-section'
+]
+
+const COMMENT_TYPES = ['add', 'update', 'append', 'prepend', 'replace-section']
+
+const COMMENT_MODE_FIELDS = [
+  'type',
+  'event',
+  'existing',
+  'unmatched',
+  'update',
+  'section'
+]
+
+const STATE_REASONS: StateReason[] = ['completed', 'not_planned']
+
+const LOCK_REASONS: LockReason[] = [
+  'off-topic',
+  'too heated',
+  'resolved',
+  'spam'
+]
+
+// the fields of action rules, at least one of them is required
+const ACTION_FIELDS = [
+  'assignees',
+  'reviewers',
+  'milestone',
+  'state',
+  'lock',
+  'draft'
+]
+
+// the events checks run on by default, those changing the body of an issue
+const DEFAULT_CHECK_EVENTS: ModeEvent[] = [
+  'issues',
+  'pull_request',
+  'pull_request_target',
+  'discussion'
+]
+
+const DEFAULT_CHECK_LABEL = 'needs-info'
+
+const DEFAULT_CHECK_COMMENT =
+  'Thanks for opening this, please edit the description to add the missing information:'
+
+const REQUIREMENT_FIELDS = [
+  'heading',
+  'field',
+  'min-length',
+  'checked',
+  'message'
+]
+
+// <!-- skip: module: depot -->, <!-- remove: bug -->
+const DEFAULT_DIRECTIVE_SYNTAX =
+  '/<!--\\s*(?<action>skip|remove)\\s*:\\s*(?<label>.*?)\\s*-->/i'
+
+// those with write access, directives of others being ignored
+const DEFAULT_DIRECTIVE_ASSOCIATIONS = ['OWNER', 'MEMBER', 'COLLABORATOR']
+
+const DIRECTIVE_FIELDS = ['syntax', 'author_association']
+
+const LABEL_DEFINITION_FIELDS = ['name', 'color', 'description', 'aliases']
+
+const CONFIG_FIELDS = [
+  'extends',
+  'labels',
+  'comments',
+  'actions',
+  'checks',
+  'default-mode',
+  'push',
+  'label-definitions',
+  'directives',
+  'preprocess'
+]
+
+// the sections merged by name by `extends`
+const RULE_SECTIONS = [
+  'labels',
+  'comments',
+  'actions',
+  'checks',
+  'label-definitions'
+]
+
+// [owner/]repo:path[@ref]
+const EXTENDS_REGEX = /^(?:([\w.-]+)\/)?([\w.-]+):([^@:]+)(?:@(.+))?$/
+
+const MAX_EXTENDS_DEPTH = 10
+
+const MATRIX_VARIABLE_REGEX = /^\w+$/
+
+function typeOf(x: unknown): string {
+  if (x === null) return 'null'
+  if (Array.isArray(x)) return 'a list'
+  if (typeof x === 'object') return 'a mapping'
+  return `${typeof x} \`${x}\``
+}
+
+function oneOf(values: string[]): string {
+  return values.map(x => `\`${x}\``).join(', ')
+}
+
+// Run `parse`, prefixing the path of the error it throws with `path`.
+function atPath<T>(path: ConfigPath, parse: () => T): T {
+  try {
+    return parse()
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      error.path.unshift(...path)
+      throw error
+    }
+    if (error instanceof Error) {
+      throw new ConfigError(error.message, [...path])
+    }
+    throw error
+  }
+}
+
+function appendLabelMode(
+  mode: ILabelMode,
+  modeKey: string,
+  modeItems: unknown[] | true = true
+): void {
+  if (modeKey === 'add' || modeKey === 'remove') {
+    if (mode[modeKey] === true) {
+    } else if (modeItems === true) {
+      mode[modeKey] = true
+    } else {
+      mode[modeKey] ??= []
+      for (const [index, modeItem] of modeItems.entries()) {
+        const modeItemValue = getModeEvent(modeItem)
+        if (!modeItemValue) {
+          throw new ConfigError(
+            `found unexpected value \`${modeItem}\`, expected one of ${oneOf(MODE_EVENTS)}`,
+            [index]
+          )
+        }
+        mode[modeKey].push(modeItemValue)
+      }
+    }
+    return
+  }
+
+  const modeItemValue = getModeEvent(modeKey)
+  if (modeItemValue) {
+    if (modeItems === true) {
+      modeItems = ['add', 'remove']
+    }
+    for (const [index, modeItem] of modeItems.entries()) {
+      if (modeItem === 'add') {
+        mode.add ??= []
+        if (mode.add !== true) mode.add.push(modeItemValue)
+      } else if (modeItem === 'remove') {
+        mode.remove ??= []
+        if (mode.remove !== true) mode.remove.push(modeItemValue)
+      } else {
+        throw new ConfigError(
+          `found unexpected value \`${modeItem}\`, expected \`add\` or \`remove\``,
+          [index]
+        )
+      }
+    }
+  } else {
+    throw Error(
+      `found unexpected value \`${modeKey}\`, expected one of ${oneOf(['add', 'remove', ...MODE_EVENTS])}`
+    )
+  }
+}
+
+function parseLabelMode(modeItem: unknown): ILabelMode {
+  const modeMap: ILabelMode = { add: [], remove: [] }
+  if (typeof modeItem === 'string') {
+    appendLabelMode(modeMap, modeItem)
+  } else if (Array.isArray(modeItem)) {
+    for (const [index, value] of modeItem.entries()) {
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string`,
+          [index]
+        )
+      }
+      atPath([index], () => appendLabelMode(modeMap, value))
+    }
+  } else if (modeItem !== null && typeof modeItem === 'object') {
+    for (const key in modeItem) {
+      const value = (modeItem as { [key: string]: unknown })[key]
+      if (value === null) {
+        atPath([key], () => appendLabelMode(modeMap, key, true))
+      } else if (typeof value === 'string') {
+        atPath([key], () => appendLabelMode(modeMap, key, [value]))
+      } else if (Array.isArray(value)) {
+        atPath([key], () => appendLabelMode(modeMap, key, value))
+      } else {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected null, a string or a list of strings`,
+          [key]
+        )
+      }
+    }
+  } else if (modeItem !== null) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(modeItem)}, expected a string, a list of strings or a mapping`
+    )
+  }
+  return modeMap
+}
+
+function parseCommentMode(modeItem: unknown): ICommentMode {
+  const commentMode: ICommentMode = {
+    type: 'add',
+    event: true,
+    existing: 'keep',
+    unmatched: 'keep',
+    update: 'replace'
+  }
+  // `append`, `prepend` and `replace-section` are shorthands for `update`
+  const setType = (value: unknown, path: ConfigPath): void => {
+    if (value === 'add' || value === 'update') {
+      commentMode.type = value
+    } else if (value !== 'replace' && UPDATE_MODES.some(x => x === value)) {
+      commentMode.type = 'update'
+      commentMode.update = value as UpdateMode
+    } else {
+      throw new ConfigError(
+        `found unexpected value \`${value}\`, expected one of ${oneOf(COMMENT_TYPES)}`,
+        path
+      )
+    }
+  }
+  if (typeof modeItem === 'string') {
+    setType(modeItem, [])
+    return commentMode
+  }
+  if (modeItem === null || typeof modeItem !== 'object') {
+    throw new ConfigError(
+      `found unexpected ${typeOf(modeItem)}, expected one of ${oneOf(COMMENT_TYPES)} or a mapping`
+    )
+  }
+  for (const key in modeItem) {
+    if (!COMMENT_MODE_FIELDS.includes(key)) {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(COMMENT_MODE_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+  if ('existing' in modeItem) {
+    if (modeItem.existing !== 'keep' && modeItem.existing !== 'update') {
+      throw new ConfigError(
+        `found unexpected value \`${modeItem.existing}\`, expected \`keep\` or \`update\``,
+        ['existing']
+      )
+    }
+    commentMode.existing = modeItem.existing
+  }
+  if ('unmatched' in modeItem) {
+    if (
+      modeItem.unmatched !== 'keep' &&
+      modeItem.unmatched !== 'delete' &&
+      modeItem.unmatched !== 'minimize'
+    ) {
+      throw new ConfigError(
+        `found unexpected value \`${modeItem.unmatched}\`, expected one of ${oneOf(['keep', 'delete', 'minimize'])}`,
+        ['unmatched']
+      )
+    }
+    commentMode.unmatched = modeItem.unmatched
+  }
+  if ('type' in modeItem) {
+    setType(modeItem.type, ['type'])
+  }
+  if ('update' in modeItem) {
+    const update = UPDATE_MODES.find(x => x === modeItem.update)
+    if (update === undefined) {
+      throw new ConfigError(
+        `found unexpected value \`${modeItem.update}\`, expected one of ${oneOf(UPDATE_MODES)}`,
+        ['update']
+      )
+    }
+    if (commentMode.type !== 'update') {
+      throw new ConfigError(
+        `\`update\` is only allowed with \`type: update\``,
+        ['update']
+      )
+    }
+    commentMode.update = update
+  }
+  if ('section' in modeItem) {
+    if (typeof modeItem.section !== 'string' || modeItem.section === '') {
+      throw new ConfigError(
+        `found unexpected ${typeOf(modeItem.section)}, expected a section name`,
+        ['section']
+      )
+    }
+    if (commentMode.type !== 'update' || commentMode.update === 'replace') {
+      throw new ConfigError(
+        `\`section\` is only allowed with the \`append\`, \`prepend\` and \`replace-section\` updates`,
+        ['section']
+      )
+    }
+    commentMode.section = modeItem.section
+  }
+  if ('event' in modeItem) {
+    if (Array.isArray(modeItem.event)) {
+      commentMode.event = []
+      for (const [index, modeEvent] of modeItem.event.entries()) {
+        const modeEventValue = getModeEvent(modeEvent)
+        if (!modeEventValue) {
+          throw new ConfigError(
+            `found unexpected value \`${modeEvent}\`, expected one of ${oneOf(MODE_EVENTS)}`,
+            ['event', index]
+          )
+        }
+        commentMode.event.push(modeEventValue)
+      }
+    } else {
+      const modeEvent = getModeEvent(modeItem.event)
+      if (modeEvent === undefined) {
+        throw new ConfigError(
+          `found unexpected value \`${modeItem.event}\`, expected one of ${oneOf(MODE_EVENTS)}`,
+          ['event']
+        )
+      }
+      commentMode.event = [modeEvent]
+    }
+  }
+  return commentMode
+}
+
+function parseActionMode(modeItem: unknown): IActionMode {
+  if (
+    modeItem !== null &&
+    typeof modeItem === 'object' &&
+    !Array.isArray(modeItem)
+  ) {
+    for (const key in modeItem) {
+      if (key !== 'event') {
+        throw new ConfigError(
+          `found unexpected field \`${key}\`, expected \`event\``,
+          [key]
+        )
+      }
+    }
+    return 'event' in modeItem
+      ? atPath(['event'], () => parseActionMode(modeItem.event))
+      : { event: true }
+  }
+  const modeItems = Array.isArray(modeItem) ? modeItem : [modeItem]
+  const events: ModeEvent[] = []
+  for (const [index, modeEvent] of modeItems.entries()) {
+    const modeEventValue = getModeEvent(modeEvent)
+    if (!modeEventValue) {
+      throw new ConfigError(
+        `found unexpected value \`${modeEvent}\`, expected one of ${oneOf(MODE_EVENTS)}`,
+        Array.isArray(modeItem) ? [index] : []
+      )
+    }
+    events.push(modeEventValue)
+  }
+  return { event: events }
+}
+
+function parseLabelRule(item: unknown, default_mode: ILabelMode): ILabelRule {
+  const is_str = (x: unknown): boolean => typeof x === 'string'
+  const is_strarr = (x: unknown): boolean => Array.isArray(x) && x.every(is_str)
+  const nopred = (x: unknown): unknown => x
+  const pred_2arr = (x: unknown): unknown[] => [x]
+  const str2strarr: ICondPred = {
+    cond: is_str,
+    pred: pred_2arr,
+    expected: 'a string'
+  }
+  const strarr2strarr: ICondPred = {
+    cond: is_strarr,
+    pred: nopred,
+    expected: 'a list of strings'
+  }
+  const mode_cond_pred: ICondPred = {
+    cond: (): boolean => true,
+    pred: parseLabelMode,
+    expected: 'a label mode'
+  }
+  const files_cond_pred: ICondPred = {
+    cond: (): boolean => true,
+    pred: parseFilesCondition,
+    expected: 'a files condition'
+  }
+  const rule = parseRule(
+    item,
+    {
+      remove_if: [str2strarr, strarr2strarr],
+      mode: [mode_cond_pred],
+      files: [files_cond_pred]
+    },
+    {
+      remove_if: [],
+      mode: default_mode
+    }
+  ) as ILabelRule
+
+  // `files: ...` is a shorthand for `when: { files: ... }`
+  if (rule.files !== undefined) {
+    const files = rule.files as ICondition
+    rule.when =
+      rule.when === undefined
+        ? files
+        : { type: 'all', conditions: [files, rule.when] }
+    delete rule.files
+  }
+  return rule
+}
+
+function parseCommentRule(
+  item: unknown,
+  default_mode: ICommentMode
+): ICommentRule {
+  const mode_cond_pred: ICondPred = {
+    cond: (): boolean => true,
+    pred: parseCommentMode,
+    expected: 'a comment mode'
+  }
+  return parseRule(
+    item,
+    { mode: [mode_cond_pred] },
+    { mode: default_mode }
+  ) as ICommentRule
+}
+
+function parseActionRule(item: unknown): IActionRule {
+  const is_str = (x: unknown): boolean => typeof x === 'string'
+  const is_strarr = (x: unknown): boolean => Array.isArray(x) && x.every(is_str)
+  const nopred = (x: unknown): unknown => x
+  const pred_2arr = (x: unknown): unknown[] => [x]
+  const str2str: ICondPred = {
+    cond: is_str,
+    pred: nopred,
+    expected: 'a string'
+  }
+  const str2strarr: ICondPred = {
+    cond: is_str,
+    pred: pred_2arr,
+    expected: 'a string'
+  }
+  const strarr2strarr: ICondPred = {
+    cond: is_strarr,
+    pred: nopred,
+    expected: 'a list of strings'
+  }
+  const choice = (values: unknown[]): ICondPred => ({
+    cond: (x: unknown): boolean => values.includes(x),
+    pred: nopred,
+    expected: `one of ${oneOf(values.map(String))}`
+  })
+  const rule = parseRule(
+    item,
+    {
+      mode: [
+        {
+          cond: (): boolean => true,
+          pred: parseActionMode,
+          expected: 'an action mode'
+        }
+      ],
+      assignees: [str2strarr, strarr2strarr],
+      reviewers: [str2strarr, strarr2strarr],
+      milestone: [str2str],
+      state: [choice(['open', 'closed'])],
+      state_reason: [choice(STATE_REASONS)],
+      lock: [choice([true, ...LOCK_REASONS])],
+      draft: [choice([true, false])]
+    },
+    {
+      mode: { event: true },
+      assignees: [],
+      reviewers: []
+    }
+  ) as IActionRule
+
+  const fields = item as { [key: string]: unknown }
+  if ('content' in fields) {
+    throw new ConfigError(
+      `found unexpected field \`content\`, action rules have no content`,
+      ['content']
+    )
+  }
+  if (
+    ACTION_FIELDS.every(key =>
+      Array.isArray(rule[key])
+        ? (rule[key] as string[]).length === 0
+        : rule[key] === undefined
+    )
+  ) {
+    throw new ConfigError(
+      `found no action, expected one of ${oneOf(ACTION_FIELDS)}`
+    )
+  }
+  if (rule.state_reason !== undefined && rule.state !== 'closed') {
+    throw new ConfigError(
+      `\`state-reason\` is only allowed with \`state: closed\``
+    )
+  }
+  for (const key of ['assignees', 'reviewers'] as const) {
+    for (const [index, value] of rule[key].entries()) {
+      atPath([key, index], () => checkTemplate(value))
+    }
+  }
+  if (rule.milestone !== undefined) {
+    atPath(['milestone'], () => checkTemplate(rule.milestone as string))
+  }
+  return rule
+}
+
+function parseCheckRule(item: unknown): ICheckRule {
+  const rule = parseRule(
+    item,
+    {
+      mode: [
+        {
+          cond: (): boolean => true,
+          pred: parseActionMode,
+          expected: 'a check mode'
+        }
+      ],
+      requirements: [
+        {
+          cond: (x: unknown): boolean => Array.isArray(x),
+          pred: (x: unknown): ICheckRequirement[] =>
+            (x as unknown[]).map((requirement, index) =>
+              atPath([index], () => parseCheckRequirement(requirement))
+            ),
+          expected: 'a list of requirements'
+        }
+      ],
+      label: [
+        {
+          cond: (x: unknown): boolean => typeof x === 'string',
+          pred: (x: unknown): unknown => x,
+          expected: 'a string'
+        },
+        {
+          cond: (x: unknown): boolean => x === null,
+          pred: (): string => '',
+          expected: 'null'
+        }
+      ]
+    },
+    {
+      mode: { event: DEFAULT_CHECK_EVENTS },
+      requirements: [],
+      label: DEFAULT_CHECK_LABEL
+    }
+  ) as ICheckRule
+
+  if (!('content' in (item as object))) {
+    rule.content = DEFAULT_CHECK_COMMENT
+  }
+  if (rule.requirements.length === 0) {
+    throw new ConfigError(`found no requirement`)
+  }
+  return rule
+}
+
+// A requirement is satisfied by a section (or a field, or the whole body) at
+// least `min-length` long with at least `checked` boxes checked. It only has
+// to be non-empty if neither is provided.
+function parseCheckRequirement(item: unknown): ICheckRequirement {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(item)}, expected a mapping describing a requirement`
+    )
+  }
+
+  const requirement: ICheckRequirement = { min_length: 1, checked: 0 }
+  let counted = false
+  for (const key in item) {
+    const value = (item as { [key: string]: unknown })[key]
+    const replaced_key = key.replace('-', '_')
+    if (
+      replaced_key === 'heading' ||
+      replaced_key === 'field' ||
+      replaced_key === 'message'
+    ) {
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string`,
+          [key]
+        )
+      }
+      requirement[replaced_key] = value
+    } else if (replaced_key === 'min_length' || replaced_key === 'checked') {
+      // `checked: true` stands for one box
+      const count =
+        replaced_key === 'checked' && typeof value === 'boolean'
+          ? Number(value)
+          : value
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a non-negative integer`,
+          [key]
+        )
+      }
+      if (!counted) {
+        requirement.min_length = 0
+        counted = true
+      }
+      requirement[replaced_key] = count
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(REQUIREMENT_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+  if (requirement.heading !== undefined && requirement.field !== undefined) {
+    throw new ConfigError(`found both \`heading\` and \`field\``)
+  }
+  return requirement
+}
+
+function parseRule(
+  item: unknown,
+  appendConfigMap: { [key: string]: ICondPred[] },
+  appendItemParams: { [key: string]: unknown }
+): IRuleBase {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(item)}, expected a mapping describing a rule`
+    )
+  }
+
+  const is_str = (x: unknown): boolean => typeof x === 'string'
+  const is_strarr = (x: unknown): boolean => Array.isArray(x) && x.every(is_str)
+  const is_null = (x: unknown): boolean => x === null
+  const nopred = (x: unknown): unknown => x
+  const pred_2arr = (x: unknown): unknown[] => [x]
+  const pred_2emptystr = (): string => ''
+
+  const str2str: ICondPred = {
+    cond: is_str,
+    pred: nopred,
+    expected: 'a string'
+  }
+  const str2strarr: ICondPred = {
+    cond: is_str,
+    pred: pred_2arr,
+    expected: 'a string'
+  }
+  const strarr2strarr: ICondPred = {
+    cond: is_strarr,
+    pred: nopred,
+    expected: 'a list of strings'
+  }
+  const null2str: ICondPred = {
+    cond: is_null,
+    pred: pred_2emptystr,
+    expected: 'null'
+  }
+
+  const configMap: { [key: string]: ICondPred[] } = {
+    ...appendConfigMap,
+    name: [str2str],
+    content: [str2str, null2str],
+    author_association: [str2strarr, strarr2strarr],
+    regexes: [str2strarr, strarr2strarr],
+    when: [
+      {
+        cond: (): boolean => true,
+        pred: parseCondition,
+        expected: 'a condition'
+      }
+    ],
+    targets: [str2strarr, strarr2strarr],
+    preprocess: [
+      {
+        cond: (): boolean => true,
+        pred: parsePreprocessors,
+        expected: 'a list of preprocessors'
+      }
+    ],
+    skip_if: [str2strarr, strarr2strarr]
+  }
+  const itemParams: IRuleBase = {
+    ...appendItemParams,
+    name: '',
+    content: undefined,
+    author_association: [],
+    regexes: [],
+    skip_if: []
+  }
+  for (const key in item) {
+    // skip-if -> skip_if, ...
+    const replaced_key = key.replace('-', '_')
+    if (replaced_key in configMap) {
+      const value = (item as { [key: string]: unknown })[key]
+      const cond_preds = configMap[replaced_key]
+      const cond_pred = cond_preds.find(x => x.cond(value))
+      if (cond_pred === undefined) {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected ${cond_preds.map(x => x.expected).join(' or ')}`,
+          [key]
+        )
+      }
+      itemParams[replaced_key] = atPath([key], () => cond_pred.pred(value))
+      atPath([key], () =>
+        checkRuleField(replaced_key, itemParams[replaced_key])
+      )
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(Object.keys(configMap))}`,
+        [key]
+      )
+    }
+  }
+  if (!itemParams.name) {
+    throw new ConfigError(`field \`name\` is missing`)
+  }
+  itemParams.content ??= itemParams.name
+  return itemParams
+}
+
+// Check that the regexes and templates of a rule compile, so that a broken
+// rule is reported at load time instead of while analyzing.
+function checkRuleField(key: string, value: unknown): void {
+  if (key === 'regexes' || key === 'author_association') {
+    for (const [index, regEx] of (value as string[]).entries()) {
+      atPath([index], () => checkRegex(regEx))
+    }
+  } else if (key === 'targets') {
+    for (const [index, target] of (value as string[]).entries()) {
+      if (!MATCH_TARGETS.some(x => x === target)) {
+        throw new ConfigError(
+          `found unexpected value \`${target}\`, expected one of ${oneOf(MATCH_TARGETS)}`,
+          [index]
+        )
+      }
+    }
+  } else if (key === 'content' && typeof value === 'string') {
+    checkTemplate(value)
+  }
+}
+
+function checkRegex(regEx: string): void {
+  try {
+    toRegExp(regEx)
+  } catch (error) {
+    throw new ConfigError(
+      `invalid regex \`${regEx}\` (${error instanceof Error ? error.message : error})`
+    )
+  }
+}
+
+// A condition is a regex, a list of conditions that must all match, a field
+// condition, or a mapping of `all`/`any`/`not`/`regex`/`regexes`/
+// `author_association`/`files`, several fields being combined with `all`.
+function parseCondition(item: unknown): ICondition {
+  if (typeof item === 'string') {
+    checkRegex(item)
+    return { type: 'regex', regex: item }
+  }
+  if (Array.isArray(item)) {
+    return {
+      type: 'all',
+      conditions: item.map((x, index) =>
+        atPath([index], () => parseCondition(x))
+      )
+    }
+  }
+  if (item === null || typeof item !== 'object') {
+    throw new ConfigError(
+      `found unexpected ${typeOf(item)}, expected a regex, a list of conditions or a mapping`
+    )
+  }
+
+  if ('field' in item) {
+    return parseFieldCondition(item as { [key: string]: unknown })
+  }
+  const conditions: ICondition[] = []
+  for (const key in item) {
+    const value = (item as { [key: string]: unknown })[key]
+    conditions.push(
+      atPath([key], () => parseConditionField(key.replace('-', '_'), value))
+    )
+  }
+  if (conditions.length === 0) {
+    throw new ConfigError(`found an empty condition`)
+  }
+  return conditions.length === 1 ? conditions[0] : { type: 'all', conditions }
+}
+
+function parseConditionField(key: string, value: unknown): ICondition {
+  switch (key) {
+    case 'all':
+    case 'any':
+      if (!Array.isArray(value)) {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a list of conditions`
+        )
+      }
+      return {
+        type: key,
+        conditions: value.map((x, index) =>
+          atPath([index], () => parseCondition(x))
+        )
+      }
+    case 'not':
+      return { type: 'not', condition: parseCondition(value) }
+    case 'files':
+      return parseFilesCondition(value)
+    case 'author':
+    case 'issue_author':
+    case 'commit_author':
+      return parseAuthorCondition(key, value)
+    case 'regex':
+    case 'author_association':
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string`
+        )
+      }
+      checkRegex(value)
+      return { type: key, regex: value }
+    case 'regexes':
+      if (typeof value === 'string') {
+        return parseCondition(value)
+      }
+      if (!Array.isArray(value) || !value.every(x => typeof x === 'string')) {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string or a list of strings`
+        )
+      }
+      return parseCondition(value)
+    default:
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(['all', 'any', 'not', 'regex', 'regexes', 'author_association', 'author', 'issue_author', 'commit_author', 'files', 'field'])}`
+      )
+  }
+}
+
+// `field` and some of `equals`/`regex`/`in`, combined with `all`
+function parseFieldCondition(item: { [key: string]: unknown }): ICondition {
+  const field = item.field
+  if (typeof field !== 'string') {
+    throw new ConfigError(
+      `found unexpected ${typeOf(field)}, expected the label of a field`,
+      ['field']
+    )
+  }
+  const conditions: ICondition[] = []
+  for (const key in item) {
+    const value = item[key]
+    if (key === 'field') {
+      continue
+    } else if (key === 'equals') {
+      // quote numbers, `2.0` would be read as `2`
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string`,
+          [key]
+        )
+      }
+      conditions.push({ type: 'field', field, match: key, values: [value] })
+    } else if (key === 'in') {
+      const values = atPath([key], () => parseStrings(value))
+      conditions.push({ type: 'field', field, match: key, values })
+    } else if (key === 'regex') {
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string`,
+          [key]
+        )
+      }
+      atPath([key], () => checkRegex(value))
+      conditions.push({ type: 'field', field, match: key, regex: value })
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(['field', 'equals', 'regex', 'in'])}`,
+        [key]
+      )
+    }
+  }
+  if (conditions.length === 0) {
+    throw new ConfigError(
+      `found no match for field \`${field}\`, expected one of ${oneOf(['equals', 'regex', 'in'])}`
+    )
+  }
+  return conditions.length === 1 ? conditions[0] : { type: 'all', conditions }
+}
+
+// Logins (or globs) the author must be one of, or a mapping of fields the
+// author must all match.
+function parseAuthorCondition(role: AuthorRole, value: unknown): ICondition {
+  const condition: IAuthorCondition = { type: 'author', role }
+  if (typeof value === 'string' || Array.isArray(value)) {
+    condition.login = parseStrings(value)
+    return condition
+  }
+  if (value === null || typeof value !== 'object') {
+    throw new ConfigError(
+      `found unexpected ${typeOf(value)}, expected logins or a mapping`
+    )
+  }
+
+  for (const key in value) {
+    const fieldValue = (value as { [key: string]: unknown })[key]
+    const replaced_key = key.replace('-', '_')
+    if (replaced_key === 'login' || replaced_key === 'not_login') {
+      condition[replaced_key] = atPath([key], () => parseStrings(fieldValue))
+    } else if (replaced_key === 'team') {
+      const teams = atPath([key], () => parseStrings(fieldValue))
+      for (const [index, team] of teams.entries()) {
+        if (!TEAM_REGEX.test(team)) {
+          throw new ConfigError(
+            `found unexpected value \`${team}\`, expected \`org/team\``,
+            Array.isArray(fieldValue) ? [key, index] : [key]
+          )
+        }
+      }
+      condition.team = teams
+    } else if (replaced_key === 'bot' || replaced_key === 'first_time') {
+      if (typeof fieldValue !== 'boolean') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(fieldValue)}, expected a boolean`,
+          [key]
+        )
+      }
+      condition[replaced_key] = fieldValue
+    } else if (replaced_key === 'association') {
+      if (typeof fieldValue !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(fieldValue)}, expected a string`,
+          [key]
+        )
+      }
+      atPath([key], () => checkRegex(fieldValue))
+      condition.association = fieldValue
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(AUTHOR_CONDITION_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+  if (Object.keys(condition).length === 2) {
+    throw new ConfigError(`found an empty condition`)
+  }
+  return condition
+}
+
+function parseStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value]
+  }
+  if (!Array.isArray(value) || !value.every(x => typeof x === 'string')) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(value)}, expected a string or a list of strings`
+    )
+  }
+  return value
+}
+
+function parsePreprocessors(value: unknown): Preprocessor[] {
+  const preprocessors = value === null ? [] : parseStrings(value)
+  for (const [index, preprocessor] of preprocessors.entries()) {
+    if (!PREPROCESSORS.some(x => x === preprocessor)) {
+      throw new ConfigError(
+        `found unexpected value \`${preprocessor}\`, expected one of ${oneOf(PREPROCESSORS)}`,
+        [index]
+      )
+    }
+  }
+  return preprocessors as Preprocessor[]
+}
+
+// Globs matched against the files changed by a pull request: a glob or a list
+// of globs (any), or a mapping of `any` or `all` and optionally `status`.
+function parseFilesCondition(value: unknown): ICondition {
+  if (typeof value === 'string' || Array.isArray(value)) {
+    return { type: 'files', match: 'any', globs: parseStrings(value) }
+  }
+  if (value === null || typeof value !== 'object') {
+    throw new ConfigError(
+      `found unexpected ${typeOf(value)}, expected a glob, a list of globs or a mapping`
+    )
+  }
+
+  let condition: { match: 'any' | 'all'; globs: string[] } | undefined
+  let status: FileStatus[] | undefined
+  for (const key in value) {
+    const fieldValue = (value as { [key: string]: unknown })[key]
+    if (key === 'any' || key === 'all') {
+      if (condition !== undefined) {
+        throw new ConfigError(
+          `found both \`any\` and \`all\`, expected one of them`,
+          [key]
+        )
+      }
+      const globs = atPath([key], () => parseStrings(fieldValue))
+      condition = { match: key, globs }
+    } else if (key === 'status') {
+      const statuses = atPath([key], () => parseStrings(fieldValue))
+      status = statuses.map((x, index) => {
+        const fileStatus = FILE_STATUSES.find(y => y === x)
+        if (fileStatus === undefined) {
+          throw new ConfigError(
+            `found unexpected value \`${x}\`, expected one of ${oneOf(FILE_STATUSES)}`,
+            [key, index]
+          )
+        }
+        return fileStatus
+      })
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(['any', 'all', 'status'])}`,
+        [key]
+      )
+    }
+  }
+  if (condition === undefined) {
+    throw new ConfigError(`field \`any\` or \`all\` is missing`)
+  }
+  return { type: 'files', ...condition, status }
+}
+
+// Check that the names in `skip_if`/`remove_if` refer to rules of the same kind.
+function checkRuleReferences(
+  rules: IParsedRule<IRuleBase>[],
+  fields: string[]
+): void {
+  const names = new Set(rules.map(x => x.rule.name))
+  for (const { rule, item, index } of rules) {
+    for (const field of fields) {
+      const key =
+        Object.keys(item as object).find(x => x.replace('-', '_') === field) ??
+        field
+      for (const [refIndex, name] of (rule[field] as string[]).entries()) {
+        if (!names.has(name)) {
+          const error = new ConfigError(
+            `\`${name}\` is not the name of any rule in this section`,
+            [index, key, refIndex]
+          )
+          error.rule = rule.name
+          throw error
+        }
+      }
+    }
+  }
+}
+
+export function getModeEvent(modeItem: unknown): ModeEvent | undefined {
+  return MODE_EVENTS.find(x => x === modeItem)
+}
+
+// The combinations of the values of the variables of a `matrix`: a mapping of
+// variables to their values, or a list of mappings of variables to a value.
+function parseMatrix(value: unknown): { [name: string]: string }[] {
+  const parseValue = (x: unknown): string => {
+    if (typeof x !== 'string' && typeof x !== 'number') {
+      throw new ConfigError(
+        `found unexpected ${typeOf(x)}, expected a string or a number`
+      )
+    }
+    return String(x)
+  }
+  const checkName = (name: string): void => {
+    if (!MATRIX_VARIABLE_REGEX.test(name)) {
+      throw new ConfigError(
+        `found unexpected variable \`${name}\`, expected letters, digits and \`_\``,
+        [name]
+      )
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      throw new ConfigError(`found no combination`)
+    }
+    return value.map((combination, index) =>
+      atPath([index], () => {
+        if (
+          combination === null ||
+          typeof combination !== 'object' ||
+          Array.isArray(combination)
+        ) {
+          throw new ConfigError(
+            `found unexpected ${typeOf(combination)}, expected a mapping of variables to values`
+          )
+        }
+        const variables: { [name: string]: string } = {}
+        for (const [name, x] of Object.entries(combination)) {
+          checkName(name)
+          variables[name] = atPath([name], () => parseValue(x))
+        }
+        return variables
+      })
+    )
+  }
+  if (value === null || typeof value !== 'object') {
+    throw new ConfigError(
+      `found unexpected ${typeOf(value)}, expected a mapping of variables to values or a list of combinations`
+    )
+  }
+
+  let combinations: { [name: string]: string }[] = [{}]
+  for (const [name, values] of Object.entries(value)) {
+    checkName(name)
+    const parsed = atPath([name], () =>
+      (Array.isArray(values) ? values : [values]).map((x, index) =>
+        atPath([index], () => parseValue(x))
+      )
+    )
+    if (parsed.length === 0) {
+      throw new ConfigError(`found no value`, [name])
+    }
+    combinations = combinations.flatMap(variables =>
+      parsed.map(x => ({ ...variables, [name]: x }))
+    )
+  }
+  return combinations
+}
+
+// Render the variables in every string of the rule, keys excepted.
+function renderRuleVariables(
+  item: unknown,
+  variables: { [name: string]: string }
+): unknown {
+  if (typeof item === 'string') {
+    return renderVariables(item, variables)
+  }
+  if (Array.isArray(item)) {
+    return item.map(x => renderRuleVariables(x, variables))
+  }
+  if (item !== null && typeof item === 'object') {
+    return Object.fromEntries(
+      Object.entries(item).map(([key, x]) => [
+        key,
+        renderRuleVariables(x, variables)
+      ])
+    )
+  }
+  return item
+}
+
+// Expand the rules with a `matrix` into a rule for each combination of its
+// variables, along with the index of the rule they are expanded from.
+function expandRules(configObject: unknown[]): [unknown, number][] {
+  const items: [unknown, number][] = []
+  for (const [index, item] of configObject.entries()) {
+    if (item === null || typeof item !== 'object' || !('matrix' in item)) {
+      items.push([item, index])
+      continue
+    }
+    const { matrix, ...rule } = item as { [key: string]: unknown }
+    try {
+      const combinations = atPath([index, 'matrix'], () => parseMatrix(matrix))
+      for (const variables of combinations) {
+        items.push([
+          atPath([index], () => renderRuleVariables(rule, variables)),
+          index
+        ])
+      }
+    } catch (error) {
+      if (error instanceof ConfigError && typeof rule.name === 'string') {
+        error.rule ??= rule.name
+      }
+      throw error
+    }
+  }
+  return items
+}
+
+// Parse the rules of a section, attributing errors to the rule they occur in.
+function parseRules<T extends { name: string }>(
+  configObject: unknown,
+  parse: (item: unknown) => T
+): IParsedRule<T>[] {
+  if (!Array.isArray(configObject)) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(configObject)}, expected a list of rules`
+    )
+  }
+  const itemArray: IParsedRule<T>[] = []
+  for (const [item, index] of expandRules(configObject)) {
+    try {
+      itemArray.push({ rule: atPath([index], () => parse(item)), item, index })
+    } catch (error) {
+      const name = (item as { name?: unknown } | null)?.name
+      if (error instanceof ConfigError && typeof name === 'string') {
+        error.rule ??= name
+      }
+      throw error
+    }
+  }
+  return itemArray
+}
+
+function parseLabelRules(
+  configObject: unknown,
+  default_mode: ILabelMode
+): ILabelRule[] {
+  const itemArray = parseRules(configObject, item =>
+    parseLabelRule(item, default_mode)
+  )
+  checkRuleReferences(itemArray, ['skip_if', 'remove_if'])
+  return itemArray.map(x => x.rule)
+}
+
+function parseCommentRules(
+  configObject: unknown,
+  default_mode: ICommentMode
+): ICommentRule[] {
+  const itemArray = parseRules(configObject, item =>
+    parseCommentRule(item, default_mode)
+  )
+  checkRuleReferences(itemArray, ['skip_if'])
+  return itemArray.map(x => x.rule)
+}
+
+function parseActionRules(configObject: unknown): IActionRule[] {
+  const itemArray = parseRules(configObject, parseActionRule)
+  checkRuleReferences(itemArray, ['skip_if'])
+  return itemArray.map(x => x.rule)
+}
+
+function parseCheckRules(configObject: unknown): ICheckRule[] {
+  const itemArray = parseRules(configObject, parseCheckRule)
+  checkRuleReferences(itemArray, ['skip_if'])
+  return itemArray.map(x => x.rule)
+}
+
+function parsePushConfig(configObject: unknown): IPushConfig {
+  const pushConfig: IPushConfig = {
+    keywords: DEFAULT_PUSH_KEYWORDS,
+    add_labels: ['fixed'],
+    remove_labels: [],
+    branches: [],
+    cross_repository: false
+  }
+  if (configObject === null) {
+    return pushConfig
+  }
+  if (typeof configObject !== 'object' || Array.isArray(configObject)) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(configObject)}, expected a mapping`
+    )
+  }
+
+  for (const key in configObject) {
+    const value = (configObject as { [key: string]: unknown })[key]
+    const replaced_key = key.replace('-', '_')
+    if (
+      replaced_key === 'keywords' ||
+      replaced_key === 'add_labels' ||
+      replaced_key === 'remove_labels' ||
+      replaced_key === 'branches'
+    ) {
+      pushConfig[replaced_key] = atPath([key], () =>
+        value === null ? [] : parseStrings(value)
+      )
+    } else if (replaced_key === 'comment') {
+      if (value === true) {
+        pushConfig.comment = DEFAULT_PUSH_COMMENT
+      } else if (typeof value === 'string') {
+        atPath([key], () => checkTemplate(value))
+        pushConfig.comment = value
+      } else if (value !== false && value !== null) {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a template or a boolean`,
+          [key]
+        )
+      }
+    } else if (replaced_key === 'state') {
+      if (value !== 'open' && value !== 'closed') {
+        throw new ConfigError(
+          `found unexpected value \`${value}\`, expected one of ${oneOf(['open', 'closed'])}`,
+          [key]
+        )
+      }
+      pushConfig.state = value
+    } else if (replaced_key === 'milestone') {
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a milestone title`,
+          [key]
+        )
+      }
+      pushConfig.milestone = value
+    } else if (replaced_key === 'when') {
+      pushConfig.when = atPath([key], () => parseCondition(value))
+    } else if (replaced_key === 'cross_repository') {
+      if (typeof value !== 'boolean') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a boolean`,
+          [key]
+        )
+      }
+      pushConfig.cross_repository = value
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(PUSH_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+  if (pushConfig.keywords.length === 0) {
+    throw new ConfigError(`found no keyword`, ['keywords'])
+  }
+  return pushConfig
+}
+
+function parseDirectiveConfig(
+  configObject: unknown
+): IDirectiveConfig | undefined {
+  if (configObject === false || configObject === null) {
+    return undefined
+  }
+  const directiveConfig: IDirectiveConfig = {
+    syntax: DEFAULT_DIRECTIVE_SYNTAX,
+    author_association: DEFAULT_DIRECTIVE_ASSOCIATIONS
+  }
+  if (configObject === true) {
+    return directiveConfig
+  }
+  if (typeof configObject !== 'object' || Array.isArray(configObject)) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(configObject)}, expected a boolean or a mapping`
+    )
+  }
+
+  for (const key in configObject) {
+    const value = (configObject as { [key: string]: unknown })[key]
+    const replaced_key = key.replace('-', '_')
+    if (replaced_key === 'syntax') {
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a regex`,
+          [key]
+        )
+      }
+      atPath([key], () => checkRegex(value))
+      // the groups of a regex are defined even if they do not participate
+      const groups = new RegExp(`${toRegExp(value).source}|`).exec('')?.groups
+      for (const group of ['action', 'label']) {
+        if (groups === undefined || !(group in groups)) {
+          throw new ConfigError(
+            `found no named group \`${group}\` in \`${value}\``,
+            [key]
+          )
+        }
+      }
+      directiveConfig.syntax = value
+    } else if (replaced_key === 'author_association') {
+      directiveConfig.author_association = atPath([key], () => {
+        const regexes = parseStrings(value)
+        for (const [index, regEx] of regexes.entries()) {
+          atPath([index], () => checkRegex(regEx))
+        }
+        return regexes
+      })
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(DIRECTIVE_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+  return directiveConfig
+}
+
+function parseLabelDefinition(item: unknown): ILabelDefinition {
+  if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(item)}, expected a mapping describing a label`
+    )
+  }
+
+  const definition: ILabelDefinition = { name: '', aliases: [] }
+  for (const key in item) {
+    const value = (item as { [key: string]: unknown })[key]
+    if (key === 'name' || key === 'description') {
+      if (typeof value !== 'string') {
+        throw new ConfigError(
+          `found unexpected ${typeOf(value)}, expected a string`,
+          [key]
+        )
+      }
+      definition[key] = value
+    } else if (key === 'color') {
+      // `color: 123456` is read as a number
+      const color = String(value)
+      if (!/^#?[0-9a-fA-F]{6}$/.test(color)) {
+        throw new ConfigError(
+          `found unexpected value \`${color}\`, expected a color like \`d73a4a\``,
+          [key]
+        )
+      }
+      definition.color = color.replace('#', '').toLowerCase()
+    } else if (key === 'aliases') {
+      definition.aliases = atPath([key], () => parseStrings(value))
+    } else {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(LABEL_DEFINITION_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+  if (!definition.name) {
+    throw new ConfigError(`field \`name\` is missing`)
+  }
+  return definition
+}
+
+// Label names are case-insensitive, and each name or alias defines one label.
+function parseLabelDefinitions(configObject: unknown): ILabelDefinition[] {
+  const definitions = parseRules(configObject, parseLabelDefinition).map(
+    x => x.rule
+  )
+  const defined: Map<string, string> = new Map()
+  for (const [index, definition] of definitions.entries()) {
+    for (const [aliasIndex, name] of [
+      definition.name,
+      ...definition.aliases
+    ].entries()) {
+      const other = defined.get(name.toLowerCase())
+      if (other !== undefined) {
+        const error = new ConfigError(
+          `label \`${name}\` is already defined by \`${other}\``,
+          aliasIndex === 0
+            ? [index, 'name']
+            : [index, 'aliases', aliasIndex - 1]
+        )
+        error.rule = definition.name
+        throw error
+      }
+      defined.set(name.toLowerCase(), definition.name)
+    }
+  }
+  return definitions
+}
+
+export function parseAllRules(
+  configObject: unknown,
+  syncLabels: number
+): IConfig {
+  if (
+    configObject === null ||
+    typeof configObject !== 'object' ||
+    Array.isArray(configObject)
+  ) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(configObject)}, expected a mapping`
+    )
+  }
+
+  for (const key in configObject) {
+    if (!CONFIG_FIELDS.includes(key)) {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(CONFIG_FIELDS)}`,
+        [key]
+      )
+    }
+  }
+
+  const labelParamsObject = 'labels' in configObject ? configObject.labels : []
+  const commentParamsObject =
+    'comments' in configObject ? configObject.comments : []
+  const actionParamsObject =
+    'actions' in configObject ? configObject.actions : []
+  let labelDefaultMode: ILabelMode | undefined =
+    'default-mode' in configObject
+      ? atPath(['default-mode'], () =>
+          parseLabelMode(configObject['default-mode'])
+        )
+      : undefined
+
+  if (labelDefaultMode === undefined) {
+    if (syncLabels === 1) {
+      labelDefaultMode = {
+        add: true,
+        remove: true
+      }
+    } else if (syncLabels === 0) {
+      labelDefaultMode = { add: true, remove: [] }
+    } else {
+      throw Error(
+        `parseAllRules found unexpected value of syncLabels (${syncLabels}, should be 0 or 1)`
+      )
+    }
+  }
+  const preprocess = atPath(['preprocess'], () =>
+    parsePreprocessors(
+      'preprocess' in configObject ? configObject.preprocess : null
+    )
+  )
+  const config: IConfig = {
+    labels: atPath(['labels'], () =>
+      parseLabelRules(labelParamsObject, labelDefaultMode)
+    ),
+    comments: atPath(['comments'], () =>
+      parseCommentRules(commentParamsObject, {
+        type: 'add',
+        event: true,
+        existing: 'keep',
+        unmatched: 'keep',
+        update: 'replace'
+      })
+    ),
+    actions: atPath(['actions'], () => parseActionRules(actionParamsObject)),
+    checks: atPath(['checks'], () =>
+      parseCheckRules('checks' in configObject ? configObject.checks : [])
+    ),
+    push: atPath(['push'], () =>
+      parsePushConfig('push' in configObject ? configObject.push : null)
+    ),
+    directives: atPath(['directives'], () =>
+      parseDirectiveConfig(
+        'directives' in configObject ? configObject.directives : null
+      )
+    ),
+    label_definitions: atPath(['label-definitions'], () =>
+      parseLabelDefinitions(
+        'label-definitions' in configObject
+          ? configObject['label-definitions']
+          : []
+      )
+    )
+  }
+  for (const rule of [
+    ...config.labels,
+    ...config.comments,
+    ...config.actions,
+    ...config.checks
+  ]) {
+    rule.preprocess ??= preprocess
+  }
+  return config
+}
+
+// The offset of the node at `path` (of its key if `path` ends with a field),
+// or of its closest ancestor in the document.
+function locateConfigPath(
+  document: Document,
+  path: ConfigPath
+): number | undefined {
+  for (let depth = path.length; depth >= 0; depth--) {
+    const key = path[depth - 1]
+    if (typeof key === 'string') {
+      const parent = document.getIn(path.slice(0, depth - 1), true)
+      const pair = isMap(parent)
+        ? parent.items.find(x => isScalar(x.key) && x.key.value === key)
+        : undefined
+      if (isScalar(pair?.key) && pair.key.range) {
+        return pair.key.range[0]
+      }
+    }
+    const node = document.getIn(path.slice(0, depth), true) as
+      | { range?: [number, number, number] }
+      | undefined
+    if (node?.range) {
+      return node.range[0]
+    }
+  }
+  return undefined
+}
+
+function formatConfigPath(path: ConfigPath, rule?: string): string {
+  let formatted = ''
+  for (const [index, key] of path.entries()) {
+    formatted +=
+      typeof key === 'number' ? `[${key}]` : `${index ? '.' : ''}${key}`
+    // labels[3] (`bug`).regexes[0]
+    if (index === 1 && rule !== undefined) formatted += ` (\`${rule}\`)`
+  }
+  return formatted
+}
+
+// Parse a configuration file, syntax errors being located.
+function parseConfigFile(content: string, source: IConfigSource): IConfigFile {
+  const lineCounter = new LineCounter()
+  const document = parseDocument(content, { lineCounter })
+  if (document.errors.length > 0) {
+    const [{ message, linePos }] = document.errors
+    const error = new ConfigError(
+      message.split('\n')[0].replace(/ at line \d+, column \d+:$/, '')
+    )
+    if (linePos) {
+      error.line = linePos[0].line
+      error.column = linePos[0].col
+      error.message = `line ${error.line}, column ${error.column}: ${error.message}`
+    }
+    error.file = formatConfigSource(source)
+    throw error
+  }
+
+  const file: IConfigFile = {
+    source,
+    document,
+    lineCounter,
+    configObject: document.toJS()
+  }
+  try {
+    checkConfigFile(file.configObject)
+  } catch (error) {
+    throw locateConfigError(error, file)
+  }
+  return file
+}
+
+// Check the fields merged by `mergeConfigFiles`, the rules themselves being
+// checked by `parseAllRules` once merged.
+function checkConfigFile(configObject: unknown): void {
+  if (
+    configObject === null ||
+    typeof configObject !== 'object' ||
+    Array.isArray(configObject)
+  ) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(configObject)}, expected a mapping`
+    )
+  }
+  for (const key in configObject) {
+    const value = (configObject as { [key: string]: unknown })[key]
+    if (!CONFIG_FIELDS.includes(key)) {
+      throw new ConfigError(
+        `found unexpected field \`${key}\`, expected one of ${oneOf(CONFIG_FIELDS)}`,
+        [key]
+      )
+    }
+    if (RULE_SECTIONS.includes(key) && !Array.isArray(value)) {
+      throw new ConfigError(
+        `found unexpected ${typeOf(value)}, expected a list of rules`,
+        [key]
+      )
+    }
+    if (RULE_SECTIONS.includes(key)) {
+      for (const [index, item] of (value as unknown[]).entries()) {
+        const disabled = isRuleObject(item) ? item.disabled : undefined
+        if (disabled !== undefined && typeof disabled !== 'boolean') {
+          throw new ConfigError(
+            `found unexpected ${typeOf(disabled)}, expected a boolean`,
+            [key, index, 'disabled']
+          )
+        }
+      }
+    }
+    if (
+      key === 'push' &&
+      value !== null &&
+      (typeof value !== 'object' || Array.isArray(value))
+    ) {
+      throw new ConfigError(
+        `found unexpected ${typeOf(value)}, expected a mapping`,
+        [key]
+      )
+    }
+  }
+}
+
+function isRuleObject(item: unknown): item is { [key: string]: unknown } {
+  return item !== null && typeof item === 'object' && !Array.isArray(item)
+}
+
+function isDisabled(item: unknown): boolean {
+  return isRuleObject(item) && item.disabled === true
+}
+
+// Set the location of a `ConfigError` thrown while parsing `file`, the
+// `path` being that of the file.
+function locateConfigError(error: unknown, file: IConfigFile): unknown {
+  if (!(error instanceof ConfigError) || error.file !== undefined) {
+    return error
+  }
+  const offset = locateConfigPath(file.document, error.path)
+  if (offset !== undefined) {
+    const { line, col } = file.lineCounter.linePos(offset)
+    error.line = line
+    error.column = col
+  }
+  const location = formatConfigPath(error.path, error.rule)
+  error.message = `${location ? `${location}: ` : ''}${error.message}`
+  if (error.line !== undefined) {
+    error.message = `line ${error.line}, column ${error.column}: ${error.message}`
+  }
+  error.file = formatConfigSource(file.source)
+  return error
+}
+
+export function formatConfigSource(source: IConfigSource): string {
+  if (source.repo === undefined) {
+    return source.path
+  }
+  const repo = source.owner ? `${source.owner}/${source.repo}` : source.repo
+  return `${repo}:${source.path}${source.ref ? `@${source.ref}` : ''}`
+}
+
+// `path` is a file of the same repository and commit as the extending file,
+// `[owner/]repo:path[@ref]` a file of another repository.
+function parseConfigSource(
+  value: unknown,
+  parent: IConfigSource
+): IConfigSource {
+  if (typeof value !== 'string' || !value) {
+    throw new ConfigError(
+      `found unexpected ${typeOf(value)}, expected a path or \`[owner/]repo:path[@ref]\``
+    )
+  }
+  if (!value.includes(':')) {
+    return { ...parent, path: value }
+  }
+  const match = value.match(EXTENDS_REGEX)
+  if (!match) {
+    throw new ConfigError(
+      `found unexpected value \`${value}\`, expected a path or \`[owner/]repo:path[@ref]\``
+    )
+  }
+  return {
+    owner: match[1] ?? parent.owner,
+    repo: match[2],
+    path: match[3],
+    ref: match[4]
+  }
+}
+
+function parseExtends(value: unknown, parent: IConfigSource): IConfigSource[] {
+  if (value === undefined || value === null) {
+    return []
+  }
+  if (!Array.isArray(value)) {
+    return [parseConfigSource(value, parent)]
+  }
+  return value.map((x, index) =>
+    atPath([index], () => parseConfigSource(x, parent))
+  )
+}
+
+// Merge the rules of the files by name, a later file replacing the rules of
+// the same name of the earlier ones, or dropping them with `disabled: true`.
+function mergeConfigFiles(files: IConfigFile[]): {
+  configObject: { [key: string]: unknown }
+  // the file and index each merged rule comes from
+  origins: { [key: string]: [IConfigFile, number][] }
+  // the last file defining each field, and each field of `push`
+  owners: { [key: string]: IConfigFile }
+} {
+  const configObject: { [key: string]: unknown } = {}
+  const origins: { [key: string]: [IConfigFile, number][] } = {}
+  const owners: { [key: string]: IConfigFile } = {}
+  const nameOf = (item: unknown): unknown =>
+    (item as { name?: unknown } | null)?.name
+
+  for (const file of files) {
+    for (const [key, value] of Object.entries(file.configObject)) {
+      if (key === 'extends') {
+        continue
+      } else if (RULE_SECTIONS.includes(key)) {
+        const rules = (configObject[key] ?? []) as unknown[]
+        const ruleOrigins = origins[key] ?? []
+        const local = (value as unknown[]).map((item, index) => ({
+          item,
+          origin: [file, index] as [IConfigFile, number]
+        }))
+        const overridden: Set<unknown> = new Set(
+          local
+            .map(x => nameOf(x.item))
+            .filter(x => typeof x === 'string')
+            .filter(x => rules.some(y => nameOf(y) === x))
+        )
+        // the overriding rules take the place of the first overridden one
+        const merged: typeof local = []
+        const placed: Set<unknown> = new Set()
+        for (const [index, item] of rules.entries()) {
+          const name = nameOf(item)
+          if (!overridden.has(name)) {
+            merged.push({ item, origin: ruleOrigins[index] })
+          } else if (!placed.has(name)) {
+            placed.add(name)
+            merged.push(...local.filter(x => nameOf(x.item) === name))
+          }
+        }
+        merged.push(...local.filter(x => !overridden.has(nameOf(x.item))))
+
+        const enabled = merged.filter(x => !isDisabled(x.item))
+        configObject[key] = enabled.map(({ item }) => {
+          if (!isRuleObject(item) || !('disabled' in item)) return item
+          const rule = { ...item }
+          delete rule.disabled
+          return rule
+        })
+        origins[key] = enabled.map(x => x.origin)
+      } else if (key === 'push') {
+        configObject.push = {
+          ...(configObject.push as object | undefined),
+          ...(value as object | null)
+        }
+        for (const field in value as object | null) {
+          owners[`push.${field}`] = file
+        }
+      } else {
+        configObject[key] = value
+      }
+      owners[key] = file
+    }
+  }
+  return { configObject, origins, owners }
+}
+
+// Read the files of the local checkout, for the offline tools; files of other
+// repositories are skipped.
+export async function readLocalConfig(source: IConfigSource): Promise<string> {
+  if (source.repo !== undefined) {
+    process.stderr.write(
+      `Skip \`${formatConfigSource(source)}\`, which is not in the local checkout\n`
+    )
+    return '{}'
+  }
+  return fs.promises.readFile(source.path, 'utf8')
+}
+
+// The configuration files, paths of the repository, that a pull request
+// changes (adds, modifies, removes or renames).
+export function findChangedConfigFiles(
+  configFiles: string[],
+  changedFiles: IChangedFile[]
+): string[] {
+  const normalize = (file: string): string => file.replace(/^\.?\/+/, '')
+  const changed = new Set(
+    changedFiles
+      .flatMap(file => [file.filename, file.previous_filename ?? ''])
+      .map(normalize)
+  )
+  return Array.from(new Set(configFiles.map(normalize))).filter(file =>
+    changed.has(file)
+  )
+}
+
+// Load a configuration file and the files it extends, with `read` returning
+// the content of a file.
+export async function loadConfig(
+  source: IConfigSource,
+  read: (source: IConfigSource) => Promise<string>,
+  syncLabels: number
+): Promise<IConfig> {
+  const files: IConfigFile[] = []
+
+  const load = async (
+    file: IConfigFile,
+    extending: string[]
+  ): Promise<void> => {
+    const bases = atPath(['extends'], () =>
+      parseExtends(file.configObject.extends, file.source)
+    )
+    for (const [index, base] of bases.entries()) {
+      const name = formatConfigSource(base)
+      const path = Array.isArray(file.configObject.extends)
+        ? ['extends', index]
+        : ['extends']
+      if (extending.includes(name)) {
+        throw new ConfigError(`\`${name}\` extends itself`, path)
+      }
+      if (extending.length >= MAX_EXTENDS_DEPTH) {
+        throw new ConfigError(
+          `found more than ${MAX_EXTENDS_DEPTH} levels of \`extends\``,
+          path
+        )
+      }
+      let content: string
+      try {
+        content = await read(base)
+      } catch (error) {
+        throw new ConfigError(
+          `unable to load \`${name}\` (${error instanceof Error ? error.message : error})`,
+          path
+        )
+      }
+      const baseFile = parseConfigFile(content, base)
+      try {
+        await load(baseFile, [...extending, name])
+      } catch (error) {
+        throw locateConfigError(error, baseFile)
+      }
+    }
+    files.push(file)
+  }
+
+  const root = parseConfigFile(await read(source), source)
+  try {
+    await load(root, [formatConfigSource(source)])
+  } catch (error) {
+    throw prefixConfigError(locateConfigError(error, root), root)
+  }
+
+  const { configObject, origins, owners } = mergeConfigFiles(files)
+  try {
+    return parseAllRules(configObject, syncLabels)
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error
+    }
+    // find the file the error is in, and its path there
+    const [key, index] = error.path
+    let file = owners[`${key}.${index}`] ?? owners[`${key}`] ?? root
+    const origin =
+      typeof index === 'number' ? origins[`${key}`]?.[index] : undefined
+    if (origin !== undefined) {
+      file = origin[0]
+      error.path = [key, origin[1], ...error.path.slice(2)]
+    }
+    throw prefixConfigError(locateConfigError(error, file), root)
+  }
+}
+
+// Name the file of errors found in extended files, the caller naming the
+// configuration file itself.
+function prefixConfigError(error: unknown, root: IConfigFile): unknown {
+  if (
+    error instanceof ConfigError &&
+    error.file !== undefined &&
+    error.file !== formatConfigSource(root.source)
+  ) {
+    error.message = `${error.file}: ${error.message}`
+  }
+  return error
+}
@@ -0,0 +1,156 @@
+import { WebhookPayload } from '@actions/github/lib/interfaces'
+import { parseFormFields } from './markdown'
+import { IAuthorInfo, ICommitInfo, IEventInfo } from './types'
+
+export function getAuthorInfo(login: string, association = ''): IAuthorInfo {
+  return { login, association, bot: login.endsWith('[bot]') }
+}
+
+export function getEventInfo(
+  event_name: string,
+  payload: WebhookPayload
+): IEventInfo {
+  const getEventDetails = (issue: {
+    [key: string]: unknown
+    number?: number
+    title?: string
+    body?: string
+    created_at?: string
+    user?: { login?: string; type?: string }
+    author_association?: string
+    head?: { ref?: string }
+    base?: { ref?: string }
+  }): IEventInfo => {
+    const author = getAuthorInfo(
+      issue.user?.login ?? '',
+      issue.author_association ?? ''
+    )
+    author.bot ||= issue.user?.type === 'Bot'
+    return {
+      event_name: event_name,
+      issue_number: issue.number ?? NaN,
+      is_pull_request:
+        event_name === 'pull_request' || event_name === 'pull_request_target',
+      title: issue.title ?? '',
+      body: issue.body ?? '',
+      issue_body: issue.body ?? '',
+      fields: parseFormFields(issue.body ?? ''),
+      comment_body: '',
+      head_branch: issue.head?.ref ?? '',
+      base_branch: issue.base?.ref ?? '',
+      commit_messages: [],
+      commits: [],
+      compare_url: '',
+      changed_files: [],
+      templates: [],
+      created_at: issue.created_at ?? '',
+      author: issue.user?.login ?? '',
+      author_association: issue.author_association ?? '',
+      issue_author_association: issue.author_association ?? '',
+      authors: { author, issue_author: author },
+      team_members: {}
+    }
+  }
+  if (event_name === 'issues') {
+    return getEventDetails(payload.issue ?? {})
+  }
+
+  if (event_name === 'pull_request_target' || event_name === 'pull_request') {
+    return getEventDetails(payload.pull_request ?? {})
+  }
+
+  if (event_name === 'discussion') {
+    const eventInfo = getEventDetails(payload.discussion ?? {})
+    eventInfo.discussion_id = payload.discussion?.node_id
+    return eventInfo
+  }
+
+  if (
+    event_name === 'issue_comment' ||
+    event_name === 'discussion_comment' ||
+    event_name === 'pull_request_review' ||
+    event_name === 'pull_request_review_comment'
+  ) {
+    // the review stands for the comment on pull_request_review events
+    const comment =
+      event_name === 'pull_request_review' ? payload.review : payload.comment
+    const issue = payload.issue ?? payload.pull_request ?? payload.discussion
+    const eventInfo = getEventDetails(comment ?? {})
+    eventInfo.comment_id = comment?.id ?? NaN
+    eventInfo.issue_number = issue?.number ?? NaN
+    eventInfo.is_pull_request =
+      event_name === 'issue_comment'
+        ? payload.issue?.pull_request !== undefined
+        : event_name !== 'discussion_comment'
+    eventInfo.title = issue?.title ?? ''
+    eventInfo.issue_body = issue?.body ?? ''
+    eventInfo.fields = parseFormFields(eventInfo.issue_body)
+    eventInfo.issue_author_association = issue?.author_association ?? ''
+    eventInfo.authors.issue_author = getAuthorInfo(
+      issue?.user?.login ?? '',
+      eventInfo.issue_author_association
+    )
+    eventInfo.authors.issue_author.bot ||= issue?.user?.type === 'Bot'
+    eventInfo.comment_body = eventInfo.body
+    eventInfo.head_branch = payload.pull_request?.head?.ref ?? ''
+    eventInfo.base_branch = payload.pull_request?.base?.ref ?? ''
+    if (event_name === 'pull_request_review') {
+      eventInfo.created_at = comment?.submitted_at ?? ''
+    }
+    if (event_name === 'discussion_comment') {
+      eventInfo.discussion_id = payload.discussion?.node_id
+      eventInfo.comment_node_id = comment?.node_id
+    }
+    return eventInfo
+  }
+
+  if (event_name === 'push') {
+    const commits: ICommitInfo[] = (payload.commits ?? []).map(
+      (commit: {
+        id: string
+        message: string
+        url: string
+        author?: { name?: string; username?: string }
+      }) => ({
+        sha: commit.id,
+        message: commit.message,
+        author: commit.author?.username ?? '',
+        author_name: commit.author?.name ?? '',
+        url: commit.url
+      })
+    )
+    const commit_messages = commits.map(commit => commit.message)
+    const ref: string = payload.ref ?? ''
+    const pusher: string = payload.pusher?.name ?? ''
+    return {
+      event_name: event_name,
+      issue_number: NaN,
+      is_pull_request: false,
+      title: '',
+      body: commit_messages.join('\n\n'),
+      issue_body: '',
+      fields: {},
+      comment_body: '',
+      // empty for tags
+      head_branch: ref.startsWith('refs/heads/')
+        ? ref.slice('refs/heads/'.length)
+        : '',
+      base_branch: '',
+      commit_messages,
+      commits,
+      compare_url: payload.compare ?? '',
+      changed_files: [],
+      templates: [],
+      // empty when the push deletes the ref
+      created_at: payload.head_commit?.timestamp ?? '',
+      author: pusher,
+      // not in the payload, loaded by `loadPusherAssociation` if needed
+      author_association: '',
+      issue_author_association: '',
+      authors: { author: getAuthorInfo(pusher) },
+      team_members: {}
+    }
+  }
+
+  throw Error(`could not handle event \`${event_name}\``)
+}
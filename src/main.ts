@@ -1,78 +1,135 @@
 import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
 import * as github from '@actions/github'
 import { GitHub } from '@actions/github/lib/utils'
-import * as yaml from 'js-yaml'
-
-type ModeEvent =
-  | 'pull_request'
-  | 'pull_request_target'
-  | 'issues'
-  | 'issue_comment'
-  | 'push'
-
-interface ILabelMode {
-  // if matched && (~ === true || the triggered event in ~) => add
-  add: ModeEvent[] | true
-
-  // if not matched && (~ === true || the triggered event in ~) => remove
-  remove: ModeEvent[] | true
+import { WebhookPayload } from '@actions/github/lib/interfaces'
+import {
+  IIssueComment,
+  IIssuePlan,
+  IIssueResult,
+  IRepository,
+  appliedPlan,
+  describePlan,
+  findPostedComments,
+  formatIssueReference,
+  getIssueReferences,
+  getReferencedTeams,
+  isChanged,
+  isLabelReferenced,
+  issueRuleAnalyze,
+  pushRuleAnalyze,
+  usesCondition
+} from './analyze'
+import {
+  ConfigError,
+  IConfigSource,
+  findChangedConfigFiles,
+  getModeEvent,
+  loadConfig
+} from './config'
+import { getEventInfo } from './event'
+import { handleRetries, sleep } from './retry'
+import { escapeHtml } from './template'
+import {
+  FileStatus,
+  IChangedFile,
+  IConfig,
+  IEventInfo,
+  ILabelDefinition,
+  IRuleBase,
+  IssueState,
+  LockReason,
+  ModeEvent,
+  StateReason
+} from './types'
+
+// set by the `dry-run` input, mutations are then recorded instead of sent
+let dryRun = false
+// set by the `report-path` input
+let reportPath = ''
+// set by the `fail-on-error` input
+let failOnError = false
+// [target, action, details] of each recorded mutation
+const dryRunActions: string[][] = []
+// the login of the account of the token, loaded once by `getActionLogin`
+let actionLogin: Promise<string> | undefined
+// what the run decided and did, for the outputs and the `report-path` file
+const report: IReport = { issues: [], references: [], failures: [] }
+
+const BACKFILL_EVENTS = ['schedule', 'workflow_dispatch']
+
+// milliseconds between the backfilled items that are changed
+const BACKFILL_INTERVAL = 1000
+
+// the account of the `GITHUB_TOKEN`, which cannot query its own login
+const DEFAULT_ACTION_LOGIN = 'github-actions[bot]'
+
+// the files and directories of the issue and pull request templates
+const TEMPLATE_PATHS = [
+  '.github/ISSUE_TEMPLATE',
+  '.github/ISSUE_TEMPLATE.md',
+  '.github/PULL_REQUEST_TEMPLATE',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  '.github/pull_request_template.md',
+  'docs/pull_request_template.md',
+  'pull_request_template.md'
+]
+
+interface IBackfillOptions {
+  state: 'open' | 'closed' | 'all'
+  type: 'issues' | 'pull_requests' | 'all'
+  // comma-separated, the items must have all of them
+  labels: string
+  // the items created before are skipped, NaN if not set
+  notBefore: number
+  maxItems: number
+  includeTitle: number
+  syncLabels: number
 }
 
-interface ICommentMode {
-  // add: add comment, update: update issue or comment
-  type: 'add' | 'update'
-
-  // if matched && (~ === true || the triggered event in ~) => add or update
-  event: ModeEvent[] | true
+// an issue or pull request listed by the issues API
+interface IBackfillItem {
+  number: number
+  created_at: string
+  labels: (string | { name?: string })[]
+  pull_request?: unknown
 }
 
-interface IRuleBase {
-  [key: string]: unknown
-
-  // the representation of the rule
+// a label of the repository
+interface IRepositoryLabel {
   name: string
-
-  // the content of the rule
-  //     for labels, it's the label name
-  //     for comments, it's the comment body
-  // if not provided (=== undefined), use `name` as the content
-  // if === '', not add label
-  content?: string
-
-  // the regexes to match the issue/comment body
-  regexes: string[]
-
-  // the author association to match
-  author_association: string[]
-
-  // if some item in skip_if has been added, skip current item
-  skip_if: string[]
-}
-
-interface ILabelRule extends IRuleBase {
-  mode: ILabelMode
-
-  // if some item in remove_if has been added, remove current item, higher priority than mode.remove
-  remove_if: string[]
-}
-
-interface ICommentRule extends IRuleBase {
-  mode: ICommentMode
+  // 6 hexadecimal digits, without `#`
+  color: string
+  description: string | null
 }
 
-interface IEventInfo {
-  event_name: string
-  issue_number: number | number[] // number[] for push event
-  comment_id?: number
-  title: string
-  body: string
-  created_at: string
-  author_association: string
+interface IReport {
+  issues: IIssueResult[]
+  // the issues referenced by the commits of a push, skipped ones included
+  references: {
+    issue: string
+    keyword: string
+    commit: string
+    skipped?: string
+  }[]
+  // the actions that could not be applied
+  failures: string[]
 }
 
-interface ICondPred {
-  cond: (x: unknown) => boolean
-  pred: (x: unknown) => unknown
+// a page of the comments of a discussion, queried with GraphQL
+interface IDiscussionComments {
+  node: {
+    comments: {
+      nodes: {
+        id: string
+        databaseId: number
+        body: string
+        author: { login: string } | null
+      }[]
+      pageInfo: { hasNextPage: boolean; endCursor: string | null }
+    }
+  }
 }
 
 async function run(): Promise<void> {
@@ -81,6 +138,8 @@ async function run(): Promise<void> {
     const configPath: string = core.getInput('configuration-path', {
       required: true
     })
+    const configSource: string =
+      core.getInput('configuration-source', { required: false }) || 'commit'
     const token: string = core.getInput('repo-token', { required: true })
     const notBefore: number = Date.parse(
       core.getInput('not-before', { required: false })
@@ -91,16 +150,59 @@ async function run(): Promise<void> {
     const syncLabels: number = parseInt(
       core.getInput('sync-labels', { required: false })
     )
+    const reportUnusedLabels: boolean =
+      parseInt(core.getInput('report-unused-labels', { required: false })) === 1
+    reportPath = core.getInput('report-path', { required: false })
+    failOnError =
+      parseInt(core.getInput('fail-on-error', { required: false })) === 1
+    dryRun = parseInt(core.getInput('dry-run', { required: false })) === 1
+    if (dryRun) {
+      core.notice('Dry run, no label or comment will be changed.')
+    }
+
+    // A client to load data from GitHub
+    const client = github.getOctokit(token)
+    handleRetries(client)
 
+    if (BACKFILL_EVENTS.includes(github.context.eventName)) {
+      const config = await loadRules(
+        client,
+        configPath,
+        configSource,
+        syncLabels
+      )
+      await applyLabelDefinitions(client, config, reportUnusedLabels)
+      await backfill(client, config, {
+        state: getChoiceInput('backfill-state', ['open', 'closed', 'all']),
+        type: getChoiceInput('backfill-type', [
+          'issues',
+          'pull_requests',
+          'all'
+        ]),
+        labels: core.getInput('backfill-labels', { required: false }),
+        notBefore,
+        maxItems: parseInt(
+          core.getInput('backfill-max-items', { required: false })
+        ),
+        includeTitle,
+        syncLabels
+      })
+      return
+    }
+
+    const eventInfo = getEventInfo(
+      github.context.eventName,
+      github.context.payload
+    )
     const {
       event_name: _event_name,
       issue_number: issue_number,
-      comment_id: comment_id,
       title: title,
       body: body,
       created_at: created_at,
+      author: author,
       author_association: author_association
-    } = getEventInfo()
+    } = eventInfo
 
     const event_name = getModeEvent(_event_name)
     if (event_name === undefined) {
@@ -113,23 +215,65 @@ async function run(): Promise<void> {
       core.debug(`title: ${title}`)
       core.debug(`body: ${body}`)
       core.debug(`created_at: ${created_at}`)
+      core.debug(`author: ${author}`)
       core.debug(`author_association: ${author_association}`)
     }
 
-    // A client to load data from GitHub
-    const client = github.getOctokit(token)
-
     if (event_name === 'push' /* || event_name === 'commit_comment'*/) {
-      if (issue_number && Array.isArray(issue_number)) {
-        for (const issue of issue_number) {
-          core.notice(`This push fixed issue #${issue}.`)
-          addLabels(client, issue, ['fixed'])
+      const config = await loadRules(
+        client,
+        configPath,
+        configSource,
+        syncLabels
+      )
+      await applyLabelDefinitions(client, config, reportUnusedLabels)
+      await loadTeamMembers(client, eventInfo, getReferencedTeams(config))
+      if (config.push.when !== undefined) {
+        await loadPusherAssociation(client, eventInfo)
+      }
+      const pushConfig = config.push
+      const references = getIssueReferences(
+        eventInfo,
+        pushConfig,
+        github.context.repo
+      )
+      for (const reference of references) {
+        const issue = formatIssueReference(reference, github.context.repo)
+        report.references.push({
+          issue,
+          keyword: reference.keyword,
+          commit: reference.commit.sha,
+          skipped: reference.skipped
+        })
+        if (reference.skipped) {
+          core.info(
+            `Skip issue ${issue} referenced by \`${reference.keyword}\`: ${reference.skipped}.`
+          )
+        } else {
+          core.notice(
+            `This push references issue ${issue} by \`${reference.keyword}\`.`
+          )
         }
       }
-    } else {
-      if (Array.isArray(issue_number)) {
-        throw Error(`unknown error`)
+
+      for (const plan of pushRuleAnalyze(
+        references,
+        pushConfig,
+        eventInfo,
+        github.context.repo
+      )) {
+        const issueLabels = await getCurrentLabels(
+          client,
+          plan.issue_number,
+          plan.repo
+        )
+        plan.addLabels = plan.addLabels.filter(label => !issueLabels.has(label))
+        plan.removeLabels = plan.removeLabels.filter(label =>
+          issueLabels.has(label)
+        )
+        await applyIssuePlan(client, plan)
       }
+    } else {
       // If the notBefore parameter has been set to a valid timestamp,
       // exit if the current issue was created before notBefore
       if (notBefore) {
@@ -147,678 +291,800 @@ async function run(): Promise<void> {
         core.debug(`Parameter \`notBefore\` is not set or is set invalid.`)
       }
 
-      const [labelParams, commentParams] = await loadRules(
+      const config = await loadRules(
         client,
         configPath,
+        configSource,
         syncLabels
       )
-      const issueLabels = await getCurrentLabels(client, issue_number)
-
-      // labels to be added & removed
-      const LabelAnalyzeResult = labelRuleAnalyze(
-        labelParams,
-        (includeTitle === 1 ? `${title}\n\n` : '') + body,
-        author_association,
-        event_name
-      )
-      let addLabelItems = LabelAnalyzeResult[0]
-      const removeLabelItems = LabelAnalyzeResult[1]
-
-      // comments to be added & updated
-      const [addCommentItems, updateCommentItems] = commentRuleAnalyze(
-        commentParams,
-        body,
-        author_association,
-        event_name
-      )
-
-      if (core.isDebug()) {
-        core.debug(`labels have been added: [${Array.from(issueLabels)}]`)
-        core.debug(`labels to be added: [${addLabelItems.toString()}]`)
-        core.debug(`labels to be removed: [${removeLabelItems.toString()}]`)
+      await applyLabelDefinitions(client, config, reportUnusedLabels)
+      const {
+        labels: labelParams,
+        comments: commentParams,
+        actions: actionParams,
+        checks: checkParams
+      } = config
+      const issueLabels =
+        eventInfo.discussion_id !== undefined
+          ? await getDiscussionLabels(client, eventInfo.discussion_id)
+          : await getCurrentLabels(client, issue_number)
+      const rules = [
+        ...labelParams,
+        ...commentParams,
+        ...actionParams,
+        ...checkParams
+      ]
+      if (eventInfo.is_pull_request) {
+        await loadPullRequestInfo(client, eventInfo, rules)
       }
+      eventInfo.templates = await getTemplates(client, rules)
+      await loadTeamMembers(client, eventInfo, getReferencedTeams(config))
 
-      // some may have been added, remove them
-      addLabelItems = addLabelItems.filter(label => !issueLabels.has(label))
-      if (addLabelItems.length > 0) {
-        core.info(
-          `Adding labels ${addLabelItems.toString()} to issue #${issue_number}`
+      await applyIssuePlan(
+        client,
+        issueRuleAnalyze(
+          labelParams,
+          commentParams,
+          actionParams,
+          checkParams,
+          eventInfo,
+          event_name,
+          issueLabels,
+          includeTitle,
+          syncLabels,
+          config.directives
         )
-        addLabels(client, issue_number, addLabelItems)
-      }
-
-      if (syncLabels) {
-        for (const label of removeLabelItems) {
-          // skip labels that have not been added
-          if (issueLabels.has(label)) {
-            core.info(`Removing label ${label} from issue #${issue_number}`)
-            removeLabel(client, issue_number, label)
-          }
-        }
-      }
-
-      for (const itemBody of addCommentItems) {
-        core.info(`Comment ${itemBody} to issue #${issue_number}`)
-        addComment(client, issue_number, itemBody)
-      }
-
-      if (event_name === 'issue_comment') {
-        if (!comment_id || isNaN(comment_id)) {
-          throw Error(`event name is ${event_name}, but comment_id is missing`)
-        }
-        for (const updateCommentItem of updateCommentItems) {
-          core.info(`Update comment ${comment_id} to issue #${issue_number}`)
-          updateComment(client, comment_id, updateCommentItem)
-        }
-      } else {
-        for (const updateCommentItem of updateCommentItems) {
-          core.info(`Update issue #${issue_number}`)
-          updateIssue(client, issue_number, updateCommentItem)
-        }
-      }
+      )
     }
   } catch (error) {
     if (error instanceof Error) {
       core.error(error)
       core.setFailed(error.message)
     }
+  } finally {
+    if (dryRun) {
+      await writeDryRunSummary()
+    }
+    if (report.failures.length > 0) {
+      const message = `${report.failures.length} actions could not be applied.`
+      if (failOnError) {
+        core.setFailed(message)
+      } else {
+        core.warning(message)
+      }
+    }
+    setOutputs()
+    if (reportPath !== '') {
+      writeReport(reportPath)
+    }
   }
 }
 
-function commentRuleAnalyze(
-  itemMap: ICommentRule[],
-  issueContent: string,
-  author_association: string,
-  event_name: ModeEvent
-): [string[], string[]] {
-  const addItems: string[] = []
-  const addItemNames: Set<string> = new Set()
-  const updateItems: string[] = []
-
-  for (const itemParams of itemMap) {
-    const item = itemParams.content ?? ''
-    const itemName = itemParams.name
-    const globs = itemParams.regexes
-    const allowedAuthorAssociation = itemParams.author_association
-    const mode = itemParams.mode
-    const skipIf = itemParams.skip_if
-    const modeType = mode.type
-    const needComment = mode.event === true || mode.event.includes(event_name)
-
-    if (skipIf.filter(x => addItemNames.has(x)).length > 0) {
-      // 此项的 skip-if 中包含待添加的项，直接跳过
-      if (core.isDebug()) {
-        core.debug(
-          `Skip item, because skip_if \`${skipIf}\` contains some item in added items \`${Array.from(addItemNames)}\``
-        )
-      }
-      continue
-    }
+function getChoiceInput<T extends string>(name: string, choices: T[]): T {
+  const value = core.getInput(name, { required: false })
+  const choice = choices.find(x => x === value)
+  if (choice === undefined) {
+    throw Error(
+      `input \`${name}\` should be one of ${choices.join(', ')}, got \`${value}\``
+    )
+  }
+  return choice
+}
 
-    if (!needComment) {
-      continue
-    }
+// Load the commits and the changed files of a pull request if some rule needs them.
+async function loadPullRequestInfo(
+  client: InstanceType<typeof GitHub>,
+  eventInfo: IEventInfo,
+  rules: IRuleBase[]
+): Promise<void> {
+  if (rules.some(rule => rule.targets?.includes('commits'))) {
+    eventInfo.commit_messages = await getCommitMessages(
+      client,
+      eventInfo.issue_number
+    )
+  }
+  if (usesCondition(rules, 'files')) {
+    eventInfo.changed_files = await getChangedFiles(
+      client,
+      eventInfo.issue_number
+    )
+  }
+}
 
-    if (checkAuthorAssociation(author_association, allowedAuthorAssociation)) {
-      const matches = checkRegexes(issueContent, globs)
-      if (matches === false) {
+// The issues and pull requests to backfill, the most recently created first.
+async function listBackfillItems(
+  client: InstanceType<typeof GitHub>,
+  options: IBackfillOptions
+): Promise<IBackfillItem[]> {
+  const items: IBackfillItem[] = []
+  for (let page = 1; items.length < options.maxItems; page++) {
+    const { data } = await client.rest.issues.listForRepo({
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      state: options.state,
+      labels: options.labels || undefined,
+      sort: 'created',
+      direction: 'desc',
+      per_page: 100,
+      page
+    })
+    core.info(`Listed ${data.length} issues and pull requests of page ${page}`)
+    for (const item of data) {
+      if (Date.parse(item.created_at) < options.notBefore) {
+        return items
+      }
+      const isPullRequest = item.pull_request !== undefined
+      if (
+        (options.type === 'issues' && isPullRequest) ||
+        (options.type === 'pull_requests' && !isPullRequest)
+      ) {
         continue
       }
-      // TODO item: "...${i,j}..." -> "...${matches[i][j]}..."
-
-      // item: "...${body}..." -> "...${issueContent}..."
-      const itemBody = item.replace(/\$\{body\}/g, issueContent)
-
-      if (modeType === 'add') {
-        addItemNames.add(itemName)
-        if (item !== '') addItems.push(itemBody)
-      } else if (modeType === 'update') {
-        if (item !== '') updateItems.push(itemBody)
+      items.push(item)
+      if (items.length >= options.maxItems) {
+        return items
       }
     }
+    if (data.length < 100) {
+      return items
+    }
   }
-
-  return [addItems, updateItems]
+  return items
 }
 
-function labelRuleAnalyze(
-  itemMap: ILabelRule[],
-  issueContent: string,
-  author_association: string,
-  event_name: ModeEvent
-): [string[], string[]] {
-  const addItems: string[] = []
-  const addItemNames: Set<string> = new Set()
-  const removeItems: string[] = []
-
-  for (const itemParams of itemMap) {
-    const item = itemParams.content ?? ''
-    const itemName = itemParams.name
-    const globs = itemParams.regexes
-    const allowedAuthorAssociation = itemParams.author_association
-    const mode = itemParams.mode
-    const skipIf = itemParams.skip_if
-    const removeIf = itemParams.remove_if
-    const needAdd =
-      mode.add !== undefined &&
-      (mode.add === true || mode.add.includes(event_name))
-    const needRemove =
-      mode.remove !== undefined &&
-      (mode.remove === true || mode.remove.includes(event_name))
-
-    core.debug(
-      `item \`${itemName}\` (needAdd = ${needAdd}, needRemove = ${needRemove}, mode = ${JSON.stringify(mode)})`
-    )
+// Apply the rules to existing issues and pull requests, on `schedule` and
+// `workflow_dispatch` events. Pull requests are analyzed as
+// `pull_request_target` events, and issues as `issues` events.
+async function backfill(
+  client: InstanceType<typeof GitHub>,
+  config: IConfig,
+  options: IBackfillOptions
+): Promise<void> {
+  if (isNaN(options.maxItems) || options.maxItems <= 0) {
+    throw Error(`input \`backfill-max-items\` should be a positive integer`)
+  }
+  const rules = [
+    ...config.labels,
+    ...config.comments,
+    ...config.actions,
+    ...config.checks
+  ]
 
-    if (skipIf.filter(x => addItemNames.has(x)).length > 0) {
-      // 此项的 skip-if 中包含待添加的项，直接跳过
-      if (core.isDebug()) {
-        core.debug(
-          `Skip item, because skip_if \`${skipIf}\` contains some item in added items \`${Array.from(addItemNames)}\``
-        )
+  // listed first, as applying the rules may change the result of the query
+  const items = await listBackfillItems(client, options)
+  const templates = await getTemplates(client, rules)
+  const teams = getReferencedTeams(config)
+  const changes: string[][] = []
+  for (const [index, item] of items.entries()) {
+    const isPullRequest = item.pull_request !== undefined
+    const event_name: ModeEvent = isPullRequest
+      ? 'pull_request_target'
+      : 'issues'
+    let payload: WebhookPayload = { issue: item }
+    if (isPullRequest) {
+      // the issues API lists pull requests without their branches
+      try {
+        const { data } = await client.rest.pulls.get({
+          ...github.context.repo,
+          pull_number: item.number
+        })
+        payload = { pull_request: { ...data, body: data.body ?? undefined } }
+      } catch (error) {
+        reportFailure(`Unable to load pull request #${item.number}. (${error})`)
+        continue
       }
-      continue
     }
-
-    if (removeIf.filter(x => addItemNames.has(x)).length > 0) {
-      // 此项的 remove-if 中包含待添加的项，直接删除，优先级高于 needRemove
-      if (item !== '' && !removeItems.includes(item)) {
-        if (core.isDebug()) {
-          core.debug(
-            `Remove item, because remove_if \`${removeIf}\` contains some item in added items \`${Array.from(addItemNames)}\``
-          )
-        }
-        removeItems.push(item)
-      }
-      continue
+    const eventInfo = getEventInfo(event_name, payload)
+    if (isPullRequest) {
+      await loadPullRequestInfo(client, eventInfo, rules)
     }
+    eventInfo.templates = templates
+    await loadTeamMembers(client, eventInfo, teams)
+    const issueLabels: Set<string> = new Set(
+      item.labels.map(label =>
+        typeof label === 'string' ? label : (label.name ?? '')
+      )
+    )
+    const plan = issueRuleAnalyze(
+      config.labels,
+      config.comments,
+      config.actions,
+      config.checks,
+      eventInfo,
+      event_name,
+      issueLabels,
+      options.includeTitle,
+      options.syncLabels,
+      config.directives
+    )
 
-    if (
-      checkAuthorAssociation(author_association, allowedAuthorAssociation) &&
-      checkRegexes(issueContent, globs) !== false
-    ) {
-      if (needAdd) {
-        if (item !== '' && !addItems.includes(item)) {
-          addItems.push(item)
-        }
-        addItemNames.add(itemName)
-      }
-    } else if (needRemove && item !== '' && !removeItems.includes(item)) {
-      removeItems.push(item)
+    const details = describePlan(plan)
+    core.info(
+      `[${index + 1}/${items.length}] ${isPullRequest ? 'Pull request' : 'Issue'} #${item.number}: ${details.join(', ') || 'nothing to do'}`
+    )
+    // applied anyway to be reported, an empty plan sends no request
+    const result = await applyIssuePlan(client, plan)
+    if (details.length > 0) {
+      changes.push([
+        `#${item.number}`,
+        escapeHtml(describePlan(appliedPlan(result)).join('\n'))
+          .split('\n')
+          .join('<br>')
+      ])
+      // spread the mutations to stay below the secondary rate limits
+      await sleep(BACKFILL_INTERVAL)
     }
   }
 
-  // 返回需要添加的项和需要删除的项，删除优先级高于添加
-  return [addItems.filter(item => !removeItems.includes(item)), removeItems]
-}
-
-function getEventInfo(): IEventInfo {
-  const getEventDetails = (issue: {
-    [key: string]: unknown
-    number?: number
-    title?: string
-    body?: string
-    created_at?: string
-    author_association?: string
-  }): IEventInfo => {
-    return {
-      event_name: github.context.eventName,
-      issue_number: issue.number ?? NaN,
-      title: issue.title ?? '',
-      body: issue.body ?? '',
-      created_at: issue.created_at ?? '',
-      author_association: issue.author_association ?? ''
-    }
+  core.notice(
+    `Backfilled ${items.length} issues and pull requests, ${changes.length} changed.`
+  )
+  core.summary
+    .addHeading('Issue Checker backfill', 2)
+    .addRaw(
+      `Backfilled ${items.length} issues and pull requests, ${changes.length} changed.`,
+      true
+    )
+  if (changes.length > 0) {
+    core.summary.addTable([
+      [
+        { data: 'Issue', header: true },
+        { data: 'Changes', header: true }
+      ],
+      ...changes
+    ])
   }
-  const payload = github.context.payload
-  const event_name = github.context.eventName
-  if (event_name === 'issues') {
-    return getEventDetails(payload.issue ?? {})
+  try {
+    await core.summary.write()
+  } catch (error) {
+    core.warning(`Unable to write job summary. (${error})`)
   }
+}
 
-  if (event_name === 'pull_request_target' || event_name === 'pull_request') {
-    return getEventDetails(payload.pull_request ?? {})
-  }
+// Comma-separated, as set in the outputs, without duplicates.
+function joinUnique(items: string[]): string {
+  return Array.from(new Set(items)).join(',')
+}
 
-  if (event_name === 'issue_comment') {
-    const eventInfo = getEventDetails(payload.comment ?? {})
-    eventInfo.comment_id = payload.comment?.id ?? NaN
-    eventInfo.issue_number = payload.issue?.number ?? NaN
-    eventInfo.title = payload.issue?.title ?? ''
-    return eventInfo
-  }
+function setOutputs(): void {
+  const { issues } = report
+  core.setOutput(
+    'labels-added',
+    joinUnique(issues.flatMap(x => x.added_labels))
+  )
+  core.setOutput(
+    'labels-removed',
+    joinUnique(issues.flatMap(x => x.removed_labels))
+  )
+  core.setOutput(
+    'comments-created',
+    issues.reduce((sum, x) => sum + x.created_comments.length, 0)
+  )
+  core.setOutput(
+    'comments-updated',
+    issues.reduce((sum, x) => sum + x.updated_comments.length, 0)
+  )
+  core.setOutput(
+    'matched-rules',
+    joinUnique(issues.flatMap(x => x.plan.matchedRules))
+  )
+  // `1` for the issues of the repository, `owner/repo#1` for others
+  core.setOutput(
+    'issue-numbers',
+    joinUnique(issues.filter(isChanged).map(x => x.issue.replace(/^#/, '')))
+  )
+}
 
-  if (event_name === 'push') {
-    let messages = ''
-    for (const commit of payload.commits) messages += `${commit.message}\n\n`
-    const issue_numbers: number[] = []
-    const globs = /(?:[Ff]ix|[Cc]lose)\s+(?:#|.*\/issues\/)(\d+)/
-    let matchResult = messages.match(globs)
-    while (matchResult && matchResult.index) {
-      issue_numbers.push(parseInt(matchResult[1]))
-      messages = messages.slice(matchResult.index + matchResult[0].length)
-      matchResult = messages.match(globs)
-    }
-    return {
-      event_name: event_name,
-      issue_number: issue_numbers,
-      title: '',
-      body: messages,
-      created_at: '1970-01-01T00:00:00Z', // TODO
-      author_association: '' // TODO
-    }
+function writeReport(file: string): void {
+  const content = {
+    event_name: github.context.eventName,
+    dry_run: dryRun,
+    issues: report.issues.map(result => ({
+      ...result,
+      changed: isChanged(result)
+    })),
+    references: report.references,
+    failures: report.failures
+  }
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, `${JSON.stringify(content, null, 2)}\n`)
+    core.info(`Write the report to ${file}`)
+  } catch (error) {
+    core.warning(`Unable to write the report to ${file}. (${error})`)
   }
+}
 
-  throw Error(`could not handle event \`${event_name}\``)
+// An action that could not be applied, after the retries of `handleRetries`.
+// The other actions are still applied, the run fails with `fail-on-error`.
+function reportFailure(message: string): void {
+  core.warning(message)
+  report.failures.push(message)
 }
 
-async function loadRules(
-  client: InstanceType<typeof GitHub>,
-  configurationPath: string,
-  syncLabels: number
-): Promise<[ILabelRule[], ICommentRule[]]> {
-  const response = await client.rest.repos.getContent({
-    owner: github.context.repo.owner,
-    repo: github.context.repo.repo,
-    path: configurationPath,
-    ref: github.context.sha
-  })
+function recordDryRun(target: string, action: string, details = ''): void {
+  dryRunActions.push([
+    target,
+    action,
+    escapeHtml(details).split('\n').join('<br>')
+  ])
+}
 
-  const data = response.data as { content?: string }
-  if (!data.content) {
-    throw Error(`the configuration path provides an invalid file`)
+async function writeDryRunSummary(): Promise<void> {
+  core.summary.addHeading('Issue Checker dry run', 2)
+  if (dryRunActions.length > 0) {
+    core.summary.addTable([
+      [
+        { data: 'Target', header: true },
+        { data: 'Action', header: true },
+        { data: 'Details', header: true }
+      ],
+      ...dryRunActions
+    ])
+  } else {
+    core.summary.addRaw('No action would be taken.', true)
+  }
+  try {
+    await core.summary.write()
+  } catch (error) {
+    core.warning(`Unable to write job summary. (${error})`)
   }
+}
 
-  const configObject = yaml.load(
-    Buffer.from(data.content, 'base64').toString('utf8')
+async function applyIssuePlan(
+  client: InstanceType<typeof GitHub>,
+  plan: IIssuePlan
+): Promise<IIssueResult> {
+  const { issue_number, comment_id } = plan
+  const repo = plan.repo ?? github.context.repo
+  const issue = formatIssueReference(
+    { ...repo, issue_number },
+    github.context.repo
   )
+  const result: IIssueResult = {
+    issue,
+    plan,
+    added_labels: [],
+    removed_labels: [],
+    created_comments: [],
+    updated_comments: [],
+    hidden_comments: [],
+    updated_items: [],
+    actions: { addAssignees: [], requestReviewers: [] }
+  }
+  report.issues.push(result)
+  if (plan.discussion_id !== undefined) {
+    await applyDiscussionPlan(client, result, plan.discussion_id)
+    return result
+  }
 
-  // transform `any` => `item_t[]` or throw if yaml is malformed:
-  return parseAllRules(configObject, syncLabels)
-}
-
-function appendLabelMode(
-  mode: ILabelMode,
-  modeKey: string,
-  modeItems: unknown[] | true = true
-): void {
-  if (modeKey === 'add' || modeKey === 'remove') {
-    if (mode[modeKey] === true) {
-    } else if (modeItems === true) {
-      mode[modeKey] = true
-    } else {
-      mode[modeKey] ??= []
-      for (const modeItem of modeItems) {
-        const modeItemValue = getModeEvent(modeItem)
-        if (!modeItemValue) {
-          throw Error(`found unexpected value \`${modeItem}\``)
-        }
-        mode[modeKey].push(modeItemValue)
-      }
+  if (plan.addLabels.length > 0) {
+    core.info(`Adding labels ${plan.addLabels.toString()} to issue ${issue}`)
+    if (await addLabels(client, issue_number, plan.addLabels, repo)) {
+      result.added_labels.push(...plan.addLabels)
     }
-    return
   }
 
-  const modeItemValue = getModeEvent(modeKey)
-  if (modeItemValue) {
-    if (modeItems === true) {
-      modeItems = ['add', 'remove']
-    }
-    for (const modeItem of modeItems) {
-      if (modeItem === 'add') {
-        mode.add ??= []
-        if (mode.add !== true) mode.add.push(modeItemValue)
-      } else if (modeItem === 'remove') {
-        mode.remove ??= []
-        if (mode.remove !== true) mode.remove.push(modeItemValue)
-      } else {
-        throw Error(`found unexpected value \`${modeItem}\``)
-      }
+  for (const label of plan.removeLabels) {
+    core.info(`Removing label ${label} from issue ${issue}`)
+    if (await removeLabel(client, issue_number, label, repo)) {
+      result.removed_labels.push(label)
     }
-  } else {
-    throw Error(`found unexpected value \`${modeKey}\``)
   }
-}
 
-function parseLabelMode(modeItem: unknown): ILabelMode {
-  const modeMap: ILabelMode = { add: [], remove: [] }
-  if (typeof modeItem === 'string') {
-    appendLabelMode(modeMap, modeItem)
-  } else if (Array.isArray(modeItem)) {
-    for (const value of modeItem) {
-      if (typeof value !== 'string') {
-        throw Error(
-          `parseLabelMode found unexpected type of configuration object`
-        )
-      }
-      appendLabelMode(modeMap, value)
-    }
-  } else if (modeItem !== null && typeof modeItem === 'object') {
-    for (const key in modeItem) {
-      const value = (modeItem as { [key: string]: unknown })[key]
-      if (value === null) {
-        appendLabelMode(modeMap, key, true)
-      } else if (typeof value === 'string') {
-        appendLabelMode(modeMap, key, [value])
-      } else if (Array.isArray(value)) {
-        appendLabelMode(modeMap, key, value)
-      } else {
-        throw Error(
-          `parseLabelMode found unexpected type of configuration object`
-        )
-      }
-    }
+  if (plan.addComments.length > 0 || plan.hideComments.length > 0) {
+    await applyComments(client, result)
   }
-  return modeMap
-}
 
-function parseCommentMode(modeItem: unknown): ICommentMode {
-  const commentMode: ICommentMode = { type: 'add', event: true }
-  if (typeof modeItem === 'string') {
-    if (modeItem !== 'add' && modeItem !== 'update') {
-      throw Error(
-        `parseCommentMode found unexpected value \`${modeItem}\` of field \`type\``
+  for (const updateItem of plan.updateItems) {
+    let updated: boolean
+    if (
+      comment_id !== undefined &&
+      plan.comment_event === 'pull_request_review'
+    ) {
+      core.info(`Update review ${comment_id} of pull request ${issue}`)
+      updated = await updateReview(
+        client,
+        issue_number,
+        comment_id,
+        updateItem,
+        repo
       )
+    } else if (
+      comment_id !== undefined &&
+      plan.comment_event === 'pull_request_review_comment'
+    ) {
+      core.info(`Update review comment ${comment_id} of pull request ${issue}`)
+      updated = await updateReviewComment(client, comment_id, updateItem, repo)
+    } else if (comment_id !== undefined) {
+      core.info(`Update comment ${comment_id} to issue ${issue}`)
+      updated = await updateComment(client, comment_id, updateItem, repo)
+    } else {
+      core.info(`Update issue ${issue}`)
+      updated = await updateIssue(client, issue_number, updateItem, repo)
     }
-    commentMode.type = modeItem
-    return commentMode
+    if (updated) result.updated_items.push(updateItem)
   }
-  if (modeItem === null || typeof modeItem !== 'object') {
-    throw Error(
-      `parseCommentMode found unexpected type of configuration object`
-    )
-  }
-  for (const key in modeItem) {
-    if (key !== 'type' && key !== 'event') {
-      throw Error(`parseCommentMode found unexpected field \`${key}\``)
+
+  const { actions } = result
+  if (plan.addAssignees.length > 0) {
+    core.info(`Assigning ${plan.addAssignees.toString()} to issue ${issue}`)
+    if (await addAssignees(client, issue_number, plan.addAssignees, repo)) {
+      actions.addAssignees = plan.addAssignees
     }
   }
-  if ('type' in modeItem) {
-    if (modeItem.type !== 'add' && modeItem.type !== 'update') {
-      throw Error(
-        `parseCommentMode found unexpected value \`${modeItem.type}\` of field \`type\``
-      )
+
+  if (plan.requestReviewers.length > 0) {
+    core.info(
+      `Requesting reviews from ${plan.requestReviewers.toString()} on pull request ${issue}`
+    )
+    if (
+      await requestReviewers(client, issue_number, plan.requestReviewers, repo)
+    ) {
+      actions.requestReviewers = plan.requestReviewers
     }
-    commentMode.type = modeItem.type
   }
-  if ('event' in modeItem) {
-    if (Array.isArray(modeItem.event)) {
-      commentMode.event = []
-      for (const modeEvent of modeItem.event) {
-        const modeEventValue = getModeEvent(modeEvent)
-        if (!modeEventValue) {
-          throw Error(
-            `parseCommentMode found unexpected value \`${modeEvent}\` of field \`event\``
-          )
-        }
-        commentMode.event.push(modeEventValue)
-      }
+
+  if (plan.milestone !== undefined) {
+    core.info(`Set the milestone of issue ${issue} to ${plan.milestone}`)
+    if (await setMilestone(client, issue_number, plan.milestone, repo)) {
+      actions.milestone = plan.milestone
     }
-    const modeEvent = getModeEvent(modeItem.event)
-    if (modeEvent === undefined) {
-      throw Error(
-        `parseCommentMode found unexpected value \`${modeItem.event}\` of field \`event\``
+  }
+
+  if (plan.state !== undefined) {
+    core.info(`Set the state of issue ${issue} to ${plan.state}`)
+    if (
+      await setIssueState(
+        client,
+        issue_number,
+        plan.state,
+        plan.state_reason,
+        repo
       )
+    ) {
+      actions.state = plan.state
+      actions.state_reason = plan.state_reason
     }
-    commentMode.event = [modeEvent]
-  }
-  return commentMode
-}
-
-function parseLabelRule(item: unknown, default_mode: ILabelMode): ILabelRule {
-  const is_str = (x: unknown): boolean => typeof x === 'string'
-  const is_strarr = (x: unknown): boolean => Array.isArray(x)
-  const nopred = (x: unknown): unknown => x
-  const pred_2arr = (x: unknown): unknown[] => [x]
-  const str2strarr: ICondPred = {
-    cond: is_str,
-    pred: pred_2arr
-  }
-  const strarr2strarr: ICondPred = {
-    cond: is_strarr,
-    pred: nopred
-  }
-  const mode_cond_pred: ICondPred = {
-    cond: (): boolean => true,
-    pred: parseLabelMode
-  }
-  return parseRule(
-    item,
-    {
-      remove_if: [str2strarr, strarr2strarr],
-      mode: [mode_cond_pred]
-    },
-    {
-      remove_if: [],
-      mode: default_mode
-    }
-  ) as ILabelRule
-}
-
-function parseCommentRule(
-  item: unknown,
-  default_mode: ICommentMode
-): ICommentRule {
-  const mode_cond_pred: ICondPred = {
-    cond: (): boolean => true,
-    pred: parseCommentMode
-  }
-  return parseRule(
-    item,
-    { mode: [mode_cond_pred] },
-    { mode: default_mode }
-  ) as ICommentRule
-}
-
-function parseRule(
-  item: unknown,
-  appendConfigMap: { [key: string]: ICondPred[] },
-  appendItemParams: { [key: string]: unknown }
-): IRuleBase {
-  if (item === null || typeof item !== 'object') {
-    throw Error(`parseRule found unexpected type of configuration object`)
-  }
-
-  const is_str = (x: unknown): boolean => typeof x === 'string'
-  const is_strarr = (x: unknown): boolean => Array.isArray(x)
-  const is_null = (x: unknown): boolean => x === null
-  const nopred = (x: unknown): unknown => x
-  const pred_2arr = (x: unknown): unknown[] => [x]
-  const pred_2emptystr = (): string => ''
-
-  const str2str: ICondPred = {
-    cond: is_str,
-    pred: nopred
-  }
-  const str2strarr: ICondPred = {
-    cond: is_str,
-    pred: pred_2arr
-  }
-  const strarr2strarr: ICondPred = {
-    cond: is_strarr,
-    pred: nopred
-  }
-  const null2str: ICondPred = {
-    cond: is_null,
-    pred: pred_2emptystr
-  }
-
-  const configMap: { [key: string]: ICondPred[] } = {
-    ...appendConfigMap,
-    name: [str2str],
-    content: [str2str, null2str],
-    author_association: [str2strarr, strarr2strarr],
-    regexes: [str2strarr, strarr2strarr],
-    skip_if: [str2strarr, strarr2strarr]
-  }
-  const itemParams: IRuleBase = {
-    ...appendItemParams,
-    name: '',
-    content: undefined,
-    author_association: [],
-    regexes: [],
-    skip_if: []
-  }
-  for (const key in item) {
-    // skip-if -> skip_if, ...
-    const replaced_key = key.replace('-', '_')
-    if (replaced_key in configMap) {
-      const value = (item as { [key: string]: unknown })[key]
-      const cond_preds = configMap[replaced_key]
-      for (const cond_pred of cond_preds) {
-        if (cond_pred.cond(value)) {
-          itemParams[replaced_key] = cond_pred.pred(value)
-          break
-        }
-      }
-    } else {
-      throw Error(`found unexpected field \`${key}\``)
+  }
+
+  if (plan.lock !== undefined) {
+    core.info(`Lock issue ${issue}`)
+    if (await lockIssue(client, issue_number, plan.lock, repo)) {
+      actions.lock = plan.lock
     }
   }
-  if (!itemParams.name) {
-    throw Error(`some item's name is missing`)
+
+  if (plan.draft !== undefined) {
+    core.info(
+      plan.draft
+        ? `Convert pull request ${issue} to a draft`
+        : `Mark pull request ${issue} ready for review`
+    )
+    if (await setDraft(client, issue_number, plan.draft, repo)) {
+      actions.draft = plan.draft
+    }
   }
-  itemParams.content ??= itemParams.name
-  return itemParams
+  return result
 }
 
-function getModeEvent(modeItem: unknown): ModeEvent | undefined {
-  return modeItem === 'pull_request' ||
-    modeItem === 'pull_request_target' ||
-    modeItem === 'issues' ||
-    modeItem === 'issue_comment' ||
-    modeItem === 'push'
-    ? modeItem
-    : undefined
-}
+// Discussions are changed with the GraphQL API, and have no assignee,
+// reviewer, milestone, state, lock or draft actions.
+async function applyDiscussionPlan(
+  client: InstanceType<typeof GitHub>,
+  result: IIssueResult,
+  discussion_id: string
+): Promise<void> {
+  const { plan } = result
+  const discussion = `discussion #${plan.issue_number}`
 
-function parseLabelRules(
-  configObject: unknown,
-  default_mode: ILabelMode
-): ILabelRule[] {
-  const itemArray: ILabelRule[] = []
-  if (!Array.isArray(configObject)) {
-    throw Error(`configObject found unexpected type of configuration object`)
-  }
-  for (const item of configObject) {
-    const itemParams: ILabelRule = parseLabelRule(item, default_mode)
-    itemArray.push(itemParams)
+  if (plan.addLabels.length > 0) {
+    core.info(`Adding labels ${plan.addLabels.toString()} to ${discussion}`)
+    result.added_labels.push(
+      ...(await setDiscussionLabels(
+        client,
+        discussion_id,
+        plan.addLabels,
+        true
+      ))
+    )
   }
-  return itemArray
-}
 
-function parseCommentRules(
-  configObject: unknown,
-  default_mode: ICommentMode
-): ICommentRule[] {
-  const itemArray: ICommentRule[] = []
-  if (!Array.isArray(configObject)) {
-    throw Error(
-      `parseCommentRules found unexpected type of configuration object`
+  if (plan.removeLabels.length > 0) {
+    core.info(
+      `Removing labels ${plan.removeLabels.toString()} from ${discussion}`
+    )
+    result.removed_labels.push(
+      ...(await setDiscussionLabels(
+        client,
+        discussion_id,
+        plan.removeLabels,
+        false
+      ))
     )
   }
-  for (const item of configObject) {
-    const itemParams: ICommentRule = parseCommentRule(item, default_mode)
-    itemArray.push(itemParams)
-  }
-  return itemArray
-}
 
-function parseAllRules(
-  configObject: unknown,
-  syncLabels: number
-): [ILabelRule[], ICommentRule[]] {
-  if (configObject === null || typeof configObject !== 'object') {
-    throw Error(`parseAllRules found unexpected type of configuration object`)
+  if (plan.addComments.length > 0 || plan.hideComments.length > 0) {
+    await applyComments(client, result)
   }
 
-  for (const key in configObject) {
-    if (key !== 'labels' && key !== 'comments' && key !== 'default-mode') {
-      throw Error(`parseAllRules found unexpected field \`${key}\``)
+  for (const updateItem of plan.updateItems) {
+    let updated: boolean
+    if (plan.comment_node_id !== undefined) {
+      core.info(`Update comment ${plan.comment_id} of ${discussion}`)
+      updated = await updateDiscussionComment(
+        client,
+        plan.comment_node_id,
+        updateItem
+      )
+    } else {
+      core.info(`Update ${discussion}`)
+      updated = await updateDiscussion(client, discussion_id, updateItem)
     }
+    if (updated) result.updated_items.push(updateItem)
   }
 
-  const labelParamsObject = 'labels' in configObject ? configObject.labels : []
-  const commentParamsObject =
-    'comments' in configObject ? configObject.comments : []
-  let labelDefaultMode: ILabelMode | undefined =
-    'default-mode' in configObject
-      ? parseLabelMode(configObject['default-mode'])
-      : undefined
+  if (
+    plan.addAssignees.length > 0 ||
+    plan.requestReviewers.length > 0 ||
+    plan.milestone !== undefined ||
+    plan.state !== undefined ||
+    plan.lock !== undefined ||
+    plan.draft !== undefined
+  ) {
+    core.warning(`Skip the actions on ${discussion}, discussions have none.`)
+  }
+}
 
-  if (labelDefaultMode === undefined) {
-    if (syncLabels === 1) {
-      labelDefaultMode = {
-        add: true,
-        remove: true
-      }
-    } else if (syncLabels === 0) {
-      labelDefaultMode = { add: true, remove: [] }
+// Post the comments, or update or leave alone those posted by earlier runs,
+// and delete or minimize the outdated ones, found by their markers.
+async function applyComments(
+  client: InstanceType<typeof GitHub>,
+  result: IIssueResult
+): Promise<void> {
+  const { plan } = result
+  const { issue_number, discussion_id } = plan
+  const repo = plan.repo ?? github.context.repo
+  const issue =
+    discussion_id !== undefined
+      ? `discussion #${issue_number}`
+      : `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`
+  const comments =
+    discussion_id !== undefined
+      ? await getDiscussionComments(client, discussion_id)
+      : await getComments(client, issue_number, repo)
+  const login = await getActionLogin(client)
+
+  for (const comment of plan.addComments) {
+    const [posted] = findPostedComments(comments, comment.marker, login)
+    if (posted === undefined) {
+      core.info(`Comment ${comment.body} to ${issue}`)
+      const created =
+        discussion_id !== undefined
+          ? await addDiscussionComment(client, discussion_id, comment.body)
+          : await addComment(client, issue_number, comment.body, repo)
+      if (created) result.created_comments.push(comment.marker)
+    } else if (comment.existing === 'update' && posted.body !== comment.body) {
+      core.info(`Update comment ${posted.id} to ${issue}`)
+      const updated =
+        discussion_id !== undefined
+          ? await updateDiscussionComment(client, posted.node_id, comment.body)
+          : await updateComment(client, posted.id, comment.body, repo)
+      if (updated) result.updated_comments.push(comment.marker)
     } else {
-      throw Error(
-        `parseAllRules found unexpected value of syncLabels (${syncLabels}, should be 0 or 1)`
-      )
+      core.info(`Skip comment ${comment.marker}, which has been posted`)
     }
   }
-  return [
-    parseLabelRules(labelParamsObject, labelDefaultMode),
-    parseCommentRules(commentParamsObject, { type: 'add', event: true })
-  ]
-}
 
-function checkRegexes(
-  body: string,
-  regexes: string[]
-): RegExpMatchArray[] | false {
-  const matches: RegExpMatchArray[] = []
-
-  // If several regex entries are provided we require all of them to match for the label to be applied.
-  for (const regEx of regexes) {
-    const isRegEx = regEx.match(/^\/(.+)\/(.*)$/)
-    const matched = isRegEx
-      ? body.match(new RegExp(isRegEx[1], isRegEx[2]))
-      : body.match(regEx)
-
-    if (!matched) {
-      return false
+  for (const { marker, action } of plan.hideComments) {
+    for (const posted of findPostedComments(comments, marker, login)) {
+      let hidden: boolean
+      if (action === 'delete') {
+        core.info(`Delete comment ${posted.id} of ${issue}`)
+        hidden =
+          discussion_id !== undefined
+            ? await deleteDiscussionComment(client, posted.id, posted.node_id)
+            : await deleteComment(client, posted.id, repo)
+      } else {
+        core.info(`Minimize comment ${posted.id} of ${issue}`)
+        // those minimized by earlier runs are left out of the result
+        hidden = await minimizeComment(client, posted.id, posted.node_id)
+      }
+      if (hidden && !result.hidden_comments.includes(marker)) {
+        result.hidden_comments.push(marker)
+      }
     }
-    matches.push(matched)
   }
-  return matches
 }
 
-function checkAuthorAssociation(
-  author_association: string,
-  regexes: string[]
-): boolean {
-  let matched
-
-  // If several regex entries are provided we require all of them to match for the label to be applied.
-  for (const regEx of regexes) {
-    const isRegEx = regEx.match(/^\/(.+)\/(.*)$/)
-
-    if (isRegEx) {
-      matched = author_association.match(new RegExp(isRegEx[1], isRegEx[2]))
-    } else {
-      matched = author_association.match(regEx)
-    }
+// `configurationSource` is `commit` (the commit of the event), `default-branch`,
+// `workspace` (the checked out files) or a ref.
+async function loadRules(
+  client: InstanceType<typeof GitHub>,
+  configurationPath: string,
+  configurationSource: string,
+  syncLabels: number
+): Promise<IConfig> {
+  const workspace = configurationSource === 'workspace'
+  const source: IConfigSource = { path: configurationPath }
+  if (configurationSource === 'commit') {
+    source.ref = github.context.sha
+    core.info(`Load the configuration at ${github.context.sha}.`)
+  } else if (configurationSource === 'default-branch') {
+    core.info(`Load the configuration on the default branch.`)
+  } else if (workspace) {
+    core.info(`Load the configuration from the workspace.`)
+  } else {
+    source.ref = configurationSource
+    core.info(`Load the configuration at \`${configurationSource}\`.`)
+  }
 
-    if (!matched) {
-      return false
+  // the files of this repository, which a pull request may change
+  const files: string[] = []
+  let config: IConfig
+  try {
+    config = await loadConfig(
+      source,
+      async x => {
+        if (x.repo !== undefined) {
+          return getConfigContent(client, x)
+        }
+        files.push(x.path)
+        return workspace ? getWorkspaceContent(x) : getConfigContent(client, x)
+      },
+      syncLabels
+    )
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      error.message = `${configurationPath}: ${error.message}`
     }
+    throw error
   }
-  return true
+
+  await checkForkConfig(client, files)
+  return config
 }
 
-async function getCurrentLabels(
+// A pull request from a fork cannot change the trusted configuration, fail
+// instead of applying rules it changed, whatever the source: the merge commit
+// loaded with `commit` on `pull_request` events has the changes of the fork.
+// The files changed by the pull request are compared rather than their
+// content, so that forks branched before a change of the configuration pass.
+async function checkForkConfig(
   client: InstanceType<typeof GitHub>,
-  issue_number: number
+  configFiles: string[]
+): Promise<void> {
+  const pull = github.context.payload.pull_request
+  const fork = pull?.head?.repo?.full_name
+  if (!pull || !fork || fork === pull.base?.repo?.full_name) {
+    return
+  }
+
+  // not caught, the rules are not applied unless the check is made
+  const files = await client.paginate(client.rest.pulls.listFiles, {
+    owner: github.context.repo.owner,
+    repo: github.context.repo.repo,
+    pull_number: pull.number,
+    per_page: 100
+  })
+  // the API lists at most 3000 files
+  if (
+    typeof pull.changed_files === 'number' &&
+    files.length < pull.changed_files
+  ) {
+    throw Error(
+      `unable to list the ${pull.changed_files} files changed by the pull request from ${fork}, the rules are not applied`
+    )
+  }
+  const changed = findChangedConfigFiles(
+    configFiles,
+    files.map(file => ({
+      filename: file.filename,
+      status: file.status as FileStatus,
+      previous_filename: file.previous_filename
+    }))
+  )
+  if (changed.length > 0) {
+    throw Error(
+      `the pull request from ${fork} changes the configuration ${changed.map(x => `\`${x}\``).join(', ')}, which is not trusted, the rules are not applied`
+    )
+  }
+  core.info(`The pull request from ${fork} does not change the configuration.`)
+}
+
+async function getWorkspaceContent(source: IConfigSource): Promise<string> {
+  const workspace = process.env.GITHUB_WORKSPACE ?? process.cwd()
+  return fs.promises.readFile(path.join(workspace, source.path), 'utf8')
+}
+
+// Create, update and rename the labels of `label-definitions`, and report the
+// labels of the repository that the configuration does not reference.
+async function applyLabelDefinitions(
+  client: InstanceType<typeof GitHub>,
+  config: IConfig,
+  reportUnused: boolean
+): Promise<void> {
+  if (config.label_definitions.length === 0 && !reportUnused) {
+    return
+  }
+  const labels = await getRepositoryLabels(client)
+  if (labels === undefined) {
+    return
+  }
+  // label names are case-insensitive
+  const findLabel = (name: string): IRepositoryLabel | undefined =>
+    labels.find(label => label.name.toLowerCase() === name.toLowerCase())
+
+  for (const definition of config.label_definitions) {
+    const label = findLabel(definition.name)
+    const aliases = definition.aliases
+      .map(findLabel)
+      .filter(x => x !== undefined)
+    if (label === undefined && aliases.length > 0) {
+      core.info(`Rename label ${aliases[0].name} to ${definition.name}`)
+      await updateLabel(client, aliases[0].name, definition)
+    } else if (label === undefined) {
+      core.info(`Create label ${definition.name}`)
+      await createLabel(client, definition)
+    } else if (
+      label.name !== definition.name ||
+      (definition.color !== undefined &&
+        label.color.toLowerCase() !== definition.color) ||
+      (definition.description !== undefined &&
+        (label.description ?? '') !== definition.description)
+    ) {
+      core.info(`Update label ${definition.name}`)
+      await updateLabel(client, label.name, definition)
+    }
+    for (const alias of label === undefined ? aliases.slice(1) : aliases) {
+      core.warning(
+        `Keep label ${alias.name}, an alias of ${definition.name}, whose issues should be relabeled by hand.`
+      )
+    }
+  }
+
+  if (reportUnused) {
+    const unused = labels
+      .map(label => label.name)
+      .filter(name => !isLabelReferenced(config, name))
+    if (unused.length > 0) {
+      core.notice(
+        `These labels are not referenced by the configuration: ${unused.join(', ')}`
+      )
+    } else {
+      core.info(`Every label is referenced by the configuration.`)
+    }
+  }
+}
+
+async function getConfigContent(
+  client: InstanceType<typeof GitHub>,
+  source: IConfigSource
+): Promise<string> {
+  const response = await client.rest.repos.getContent({
+    owner: source.owner ?? github.context.repo.owner,
+    repo: source.repo ?? github.context.repo.repo,
+    path: source.path,
+    ref: source.ref
+  })
+
+  const data = response.data as { content?: string }
+  if (!data.content) {
+    throw Error(`the configuration path provides an invalid file`)
+  }
+  return Buffer.from(data.content, 'base64').toString('utf8')
+}
+
+async function getCurrentLabels(
+  client: InstanceType<typeof GitHub>,
+  issue_number: number,
+  repo: IRepository = github.context.repo
 ): Promise<Set<string>> {
   const labels: Set<string> = new Set()
   try {
     const response = await client.rest.issues.listLabelsOnIssue({
-      owner: github.context.repo.owner,
-      repo: github.context.repo.repo,
+      owner: repo.owner,
+      repo: repo.repo,
       issue_number
     })
     core.debug(`Load labels status ${response.status}`)
@@ -833,51 +1099,364 @@ async function getCurrentLabels(
   }
 }
 
-async function addLabels(
+async function getCommitMessages(
+  client: InstanceType<typeof GitHub>,
+  pull_number: number
+): Promise<string[]> {
+  try {
+    const commits = await client.paginate(client.rest.pulls.listCommits, {
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      pull_number
+    })
+    core.debug(`Load ${commits.length} commits`)
+    return commits.map(commit => commit.commit.message)
+  } catch (error) {
+    core.warning(`Unable to load commits. (${error})`)
+    return []
+  }
+}
+
+async function getChangedFiles(
+  client: InstanceType<typeof GitHub>,
+  pull_number: number
+): Promise<IChangedFile[]> {
+  try {
+    const files = await client.paginate(client.rest.pulls.listFiles, {
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      pull_number,
+      per_page: 100
+    })
+    core.debug(`Load ${files.length} changed files`)
+    return files.map(file => ({
+      filename: file.filename,
+      status: file.status as FileStatus,
+      previous_filename: file.previous_filename
+    }))
+  } catch (error) {
+    core.warning(`Unable to load changed files. (${error})`)
+    return []
+  }
+}
+
+// Find which of the authors of the event, and of the commits on push events,
+// are members of the teams. Reading the teams of an organization takes a
+// token allowed to, which the `GITHUB_TOKEN` is not.
+async function loadTeamMembers(
+  client: InstanceType<typeof GitHub>,
+  eventInfo: IEventInfo,
+  teams: string[]
+): Promise<void> {
+  const logins = new Set(
+    [
+      ...Object.values(eventInfo.authors).map(author => author.login),
+      ...eventInfo.commits.map(commit => commit.author)
+    ].filter(login => login !== '')
+  )
+  for (const team of teams) {
+    const [org, team_slug] = team.split('/')
+    const members: string[] = []
+    for (const username of logins) {
+      try {
+        const response = await client.rest.teams.getMembershipForUserInOrg({
+          org,
+          team_slug,
+          username
+        })
+        if (response.data.state === 'active') members.push(username)
+      } catch (error) {
+        // not a member
+        if ((error as { status?: number }).status !== 404) {
+          core.warning(
+            `Unable to load the membership of ${username} in ${team}. (${error})`
+          )
+        }
+      }
+    }
+    core.debug(`Members of ${team}: [${members}]`)
+    eventInfo.team_members[team] = members
+  }
+}
+
+// The association of the pusher with the repository, which push payloads do
+// not carry. Members of the organization whose membership is private are
+// taken as collaborators, unless the token may read the members.
+async function loadPusherAssociation(
+  client: InstanceType<typeof GitHub>,
+  eventInfo: IEventInfo
+): Promise<void> {
+  const pusher = eventInfo.authors.author
+  const { owner, repo } = github.context.repo
+  let association = ''
+  if (pusher === undefined || pusher.login === '') {
+    return
+  }
+  const username = pusher.login
+  if (username.toLowerCase() === owner.toLowerCase()) {
+    association = 'OWNER'
+  } else {
+    if (github.context.payload.organization !== undefined) {
+      try {
+        await client.rest.orgs.checkMembershipForUser({ org: owner, username })
+        association = 'MEMBER'
+      } catch (error) {
+        // not a member, or not a public one
+        if ((error as { status?: number }).status !== 404) {
+          core.warning(
+            `Unable to load the membership of ${username} in ${owner}. (${error})`
+          )
+        }
+      }
+    }
+    if (association === '') {
+      try {
+        const response = await client.rest.repos.getCollaboratorPermissionLevel(
+          { owner, repo, username }
+        )
+        if (response.data.permission !== 'none') association = 'COLLABORATOR'
+      } catch (error) {
+        core.warning(
+          `Unable to load the permission of ${username} on ${owner}/${repo}. (${error})`
+        )
+      }
+    }
+  }
+  core.debug(`Association of the pusher ${username}: ${association || 'NONE'}`)
+  eventInfo.author_association = association
+  pusher.association = association
+}
+
+// The markdown templates of the default branch, if some rule strips them.
+async function getTemplates(
+  client: InstanceType<typeof GitHub>,
+  rules: IRuleBase[]
+): Promise<string[]> {
+  if (!rules.some(rule => rule.preprocess?.includes('template'))) {
+    return []
+  }
+  const templates: string[] = []
+  for (const templatePath of TEMPLATE_PATHS) {
+    try {
+      const response = await client.rest.repos.getContent({
+        ...github.context.repo,
+        path: templatePath
+      })
+      if (!Array.isArray(response.data)) {
+        const data = response.data as { content?: string }
+        templates.push(
+          Buffer.from(data.content ?? '', 'base64').toString('utf8')
+        )
+        continue
+      }
+      // a directory lists its files without their content
+      for (const file of response.data) {
+        if (file.type === 'file' && /\.md$/i.test(file.name)) {
+          templates.push(await getConfigContent(client, { path: file.path }))
+        }
+      }
+    } catch (error) {
+      // most of the paths do not exist
+      core.debug(`Unable to load templates at ${templatePath}. (${error})`)
+    }
+  }
+  core.debug(`Load ${templates.length} templates`)
+  return templates
+}
+
+// The login of the account the token belongs to. Installation tokens, like
+// the `GITHUB_TOKEN`, cannot query it and are taken as `github-actions[bot]`.
+function getActionLogin(client: InstanceType<typeof GitHub>): Promise<string> {
+  actionLogin ??= (async () => {
+    try {
+      const response = await client.rest.users.getAuthenticated()
+      core.debug(`Authenticated as ${response.data.login}`)
+      return response.data.login
+    } catch (error) {
+      core.debug(
+        `Unable to load the authenticated user, assume ${DEFAULT_ACTION_LOGIN}. (${error})`
+      )
+      return DEFAULT_ACTION_LOGIN
+    }
+  })()
+  return actionLogin
+}
+
+async function getComments(
   client: InstanceType<typeof GitHub>,
   issue_number: number,
-  labels: string[]
+  repo: IRepository = github.context.repo
+): Promise<IIssueComment[]> {
+  try {
+    const comments = await client.paginate(client.rest.issues.listComments, {
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number,
+      per_page: 100
+    })
+    core.debug(`Load ${comments.length} comments`)
+    return comments.map(comment => ({
+      id: comment.id,
+      node_id: comment.node_id,
+      body: comment.body ?? '',
+      author: comment.user?.login ?? ''
+    }))
+  } catch (error) {
+    core.warning(`Unable to load comments. (${error})`)
+    return []
+  }
+}
+
+async function getRepositoryLabels(
+  client: InstanceType<typeof GitHub>
+): Promise<IRepositoryLabel[] | undefined> {
+  try {
+    const labels = await client.paginate(client.rest.issues.listLabelsForRepo, {
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      per_page: 100
+    })
+    core.debug(`Load ${labels.length} labels of the repository`)
+    return labels
+  } catch (error) {
+    core.warning(`Unable to load the labels of the repository. (${error})`)
+    return undefined
+  }
+}
+
+async function createLabel(
+  client: InstanceType<typeof GitHub>,
+  definition: ILabelDefinition
 ): Promise<void> {
+  if (dryRun) {
+    recordDryRun(
+      `label ${definition.name}`,
+      'create label',
+      [definition.color, definition.description].filter(x => x).join(', ')
+    )
+    return
+  }
   try {
-    const response = await client.rest.issues.addLabels({
+    const response = await client.rest.issues.createLabel({
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      name: definition.name,
+      color: definition.color,
+      description: definition.description
+    })
+    core.debug(`Create label status ${response.status}`)
+  } catch (error) {
+    reportFailure(`Unable to create label ${definition.name}. (${error})`)
+  }
+}
+
+// Update the label `name`, renaming it to the name of the definition.
+async function updateLabel(
+  client: InstanceType<typeof GitHub>,
+  name: string,
+  definition: ILabelDefinition
+): Promise<void> {
+  if (dryRun) {
+    recordDryRun(
+      `label ${name}`,
+      'update label',
+      [definition.name, definition.color, definition.description]
+        .filter(x => x)
+        .join(', ')
+    )
+    return
+  }
+  try {
+    const response = await client.rest.issues.updateLabel({
       owner: github.context.repo.owner,
       repo: github.context.repo.repo,
+      name,
+      new_name: definition.name,
+      color: definition.color,
+      description: definition.description
+    })
+    core.debug(`Update label status ${response.status}`)
+  } catch (error) {
+    reportFailure(`Unable to update label ${name}. (${error})`)
+  }
+}
+
+async function addLabels(
+  client: InstanceType<typeof GitHub>,
+  issue_number: number,
+  labels: string[],
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'add labels',
+      labels.join(', ')
+    )
+    return true
+  }
+  try {
+    const response = await client.rest.issues.addLabels({
+      owner: repo.owner,
+      repo: repo.repo,
       issue_number,
       labels
     })
     core.debug(`Add labels status ${response.status}`)
+    return true
   } catch (error) {
-    core.warning(`Unable to add labels. (${error})`)
+    reportFailure(`Unable to add labels. (${error})`)
+    return false
   }
 }
 
 async function removeLabel(
   client: InstanceType<typeof GitHub>,
   issue_number: number,
-  name: string
-): Promise<void> {
+  name: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'remove label',
+      name
+    )
+    return true
+  }
   try {
     const response = await client.rest.issues.removeLabel({
-      owner: github.context.repo.owner,
-      repo: github.context.repo.repo,
+      owner: repo.owner,
+      repo: repo.repo,
       issue_number,
       name
     })
     core.debug(`Remove label \`${name}\` status ${response.status}`)
+    return true
   } catch (error) {
-    core.warning(`Unable to remove label ${name}. (${error})`)
+    reportFailure(`Unable to remove label ${name}. (${error})`)
+    return false
   }
 }
 
 async function addComment(
   client: InstanceType<typeof GitHub>,
   issue_number: number,
-  body: string
-): Promise<void> {
+  body: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'add comment',
+      body
+    )
+    return true
+  }
   try {
     const response = await client.rest.issues.createComment({
-      owner: github.context.repo.owner,
-      repo: github.context.repo.repo,
+      owner: repo.owner,
+      repo: repo.repo,
       issue_number,
       body
     })
@@ -886,22 +1465,29 @@ async function addComment(
         response.status
       }`
     )
+    return true
   } catch (error) {
-    core.warning(
+    reportFailure(
       `Unable to add comment \`${body.split('\n').join('\\n')}\`. (${error})`
     )
+    return false
   }
 }
 
 async function updateComment(
   client: InstanceType<typeof GitHub>,
   issue_number: number,
-  body: string
-): Promise<void> {
+  body: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`comment ${issue_number}`, 'update comment', body)
+    return true
+  }
   try {
     const response = await client.rest.issues.updateComment({
-      owner: github.context.repo.owner,
-      repo: github.context.repo.repo,
+      owner: repo.owner,
+      repo: repo.repo,
       comment_id: issue_number,
       body
     })
@@ -910,22 +1496,85 @@ async function updateComment(
         response.status
       }`
     )
+    return true
   } catch (error) {
-    core.warning(
+    reportFailure(
       `Unable to update comment \`${body.split('\n').join('\\n')}\`. (${error})`
     )
+    return false
+  }
+}
+
+async function updateReview(
+  client: InstanceType<typeof GitHub>,
+  pull_number: number,
+  review_id: number,
+  body: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`review ${review_id}`, 'update review', body)
+    return true
+  }
+  try {
+    const response = await client.rest.pulls.updateReview({
+      owner: repo.owner,
+      repo: repo.repo,
+      pull_number,
+      review_id,
+      body
+    })
+    core.debug(`Update review ${review_id} status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to update review ${review_id}. (${error})`)
+    return false
+  }
+}
+
+async function updateReviewComment(
+  client: InstanceType<typeof GitHub>,
+  comment_id: number,
+  body: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`review comment ${comment_id}`, 'update comment', body)
+    return true
+  }
+  try {
+    const response = await client.rest.pulls.updateReviewComment({
+      owner: repo.owner,
+      repo: repo.repo,
+      comment_id,
+      body
+    })
+    core.debug(`Update review comment ${comment_id} status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to update review comment ${comment_id}. (${error})`)
+    return false
   }
 }
 
 async function updateIssue(
   client: InstanceType<typeof GitHub>,
   issue_number: number,
-  body: string
-): Promise<void> {
+  body: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'update issue',
+      body
+    )
+    return true
+  }
   try {
     const response = await client.rest.issues.update({
-      owner: github.context.repo.owner,
-      repo: github.context.repo.repo,
+      owner: repo.owner,
+      repo: repo.repo,
       issue_number,
       body
     })
@@ -934,10 +1583,464 @@ async function updateIssue(
         response.status
       }`
     )
+    return true
   } catch (error) {
-    core.warning(
+    reportFailure(
       `Unable to update issue \`${body.split('\n').join('\\n')}\`. (${error})`
     )
+    return false
+  }
+}
+
+async function setIssueState(
+  client: InstanceType<typeof GitHub>,
+  issue_number: number,
+  state: IssueState,
+  state_reason?: StateReason,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'set state',
+      state_reason ? `${state} (${state_reason})` : state
+    )
+    return true
+  }
+  try {
+    const response = await client.rest.issues.update({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number,
+      state,
+      state_reason
+    })
+    core.debug(`Set state \`${state}\` status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to set state ${state}. (${error})`)
+    return false
+  }
+}
+
+async function setMilestone(
+  client: InstanceType<typeof GitHub>,
+  issue_number: number,
+  title: string,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'set milestone',
+      title
+    )
+    return true
+  }
+  try {
+    const milestones = await client.paginate(
+      client.rest.issues.listMilestones,
+      { owner: repo.owner, repo: repo.repo, state: 'all', per_page: 100 }
+    )
+    const milestone = milestones.find(x => x.title === title)
+    if (milestone === undefined) {
+      reportFailure(`Unable to set milestone ${title}, which does not exist.`)
+      return false
+    }
+    const response = await client.rest.issues.update({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number,
+      milestone: milestone.number
+    })
+    core.debug(`Set milestone \`${title}\` status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to set milestone ${title}. (${error})`)
+    return false
+  }
+}
+
+async function addAssignees(
+  client: InstanceType<typeof GitHub>,
+  issue_number: number,
+  assignees: string[],
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'add assignees',
+      assignees.join(', ')
+    )
+    return true
+  }
+  try {
+    const response = await client.rest.issues.addAssignees({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number,
+      assignees
+    })
+    core.debug(`Add assignees status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to add assignees. (${error})`)
+    return false
+  }
+}
+
+// `org/team` requests a review from a team of the organization
+async function requestReviewers(
+  client: InstanceType<typeof GitHub>,
+  pull_number: number,
+  reviewers: string[],
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `pull request ${formatIssueReference({ ...repo, issue_number: pull_number }, github.context.repo)}`,
+      'request reviewers',
+      reviewers.join(', ')
+    )
+    return true
+  }
+  try {
+    const response = await client.rest.pulls.requestReviewers({
+      owner: repo.owner,
+      repo: repo.repo,
+      pull_number,
+      reviewers: reviewers.filter(x => !x.includes('/')),
+      team_reviewers: reviewers
+        .filter(x => x.includes('/'))
+        .map(x => x.slice(x.indexOf('/') + 1))
+    })
+    core.debug(`Request reviewers status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to request reviewers. (${error})`)
+    return false
+  }
+}
+
+async function lockIssue(
+  client: InstanceType<typeof GitHub>,
+  issue_number: number,
+  lock: LockReason | true,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  const lock_reason = lock === true ? undefined : lock
+  if (dryRun) {
+    recordDryRun(
+      `issue ${formatIssueReference({ ...repo, issue_number }, github.context.repo)}`,
+      'lock',
+      lock_reason ?? ''
+    )
+    return true
+  }
+  try {
+    const response = await client.rest.issues.lock({
+      owner: repo.owner,
+      repo: repo.repo,
+      issue_number,
+      lock_reason
+    })
+    core.debug(`Lock status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to lock. (${error})`)
+    return false
+  }
+}
+
+// The REST API cannot change the draft state of a pull request. Whether the
+// state is changed, not if it was already the one asked for.
+async function setDraft(
+  client: InstanceType<typeof GitHub>,
+  pull_number: number,
+  draft: boolean,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(
+      `pull request ${formatIssueReference({ ...repo, issue_number: pull_number }, github.context.repo)}`,
+      draft ? 'convert to draft' : 'mark ready for review'
+    )
+    return true
+  }
+  try {
+    const { data: pull } = await client.rest.pulls.get({
+      owner: repo.owner,
+      repo: repo.repo,
+      pull_number
+    })
+    if (pull.draft === draft) {
+      return false
+    }
+    await client.graphql(
+      draft
+        ? `mutation($id: ID!) { convertPullRequestToDraft(input: {pullRequestId: $id}) { clientMutationId } }`
+        : `mutation($id: ID!) { markPullRequestReadyForReview(input: {pullRequestId: $id}) { clientMutationId } }`,
+      { id: pull.node_id }
+    )
+    core.debug(`Set draft \`${draft}\``)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to set draft ${draft}. (${error})`)
+    return false
+  }
+}
+
+async function deleteComment(
+  client: InstanceType<typeof GitHub>,
+  comment_id: number,
+  repo: IRepository = github.context.repo
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`comment ${comment_id}`, 'delete comment')
+    return true
+  }
+  try {
+    const response = await client.rest.issues.deleteComment({
+      owner: repo.owner,
+      repo: repo.repo,
+      comment_id
+    })
+    core.debug(`Delete comment ${comment_id} status ${response.status}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to delete comment ${comment_id}. (${error})`)
+    return false
+  }
+}
+
+// The REST API cannot minimize comments. Whether the comment is minimized by
+// this call, not if it was already.
+async function minimizeComment(
+  client: InstanceType<typeof GitHub>,
+  comment_id: number,
+  node_id: string
+): Promise<boolean> {
+  try {
+    const { node } = await client.graphql<{
+      node: { isMinimized: boolean }
+    }>(
+      `query($id: ID!) { node(id: $id) { ... on Minimizable { isMinimized } } }`,
+      { id: node_id }
+    )
+    if (node.isMinimized) {
+      core.debug(`Comment ${comment_id} is minimized already`)
+      return false
+    }
+    if (dryRun) {
+      recordDryRun(`comment ${comment_id}`, 'minimize comment')
+      return true
+    }
+    await client.graphql(
+      `mutation($id: ID!) { minimizeComment(input: {subjectId: $id, classifier: OUTDATED}) { clientMutationId } }`,
+      { id: node_id }
+    )
+    core.debug(`Minimize comment ${comment_id}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to minimize comment ${comment_id}. (${error})`)
+    return false
+  }
+}
+
+async function getDiscussionLabels(
+  client: InstanceType<typeof GitHub>,
+  discussion_id: string
+): Promise<Set<string>> {
+  try {
+    const { node } = await client.graphql<{
+      node: { labels: { nodes: { name: string }[] } }
+    }>(
+      `query($id: ID!) { node(id: $id) { ... on Discussion { labels(first: 100) { nodes { name } } } } }`,
+      { id: discussion_id }
+    )
+    return new Set(node.labels.nodes.map(label => label.name))
+  } catch (error) {
+    core.warning(`Unable to load labels. (${error})`)
+    return new Set()
+  }
+}
+
+// The top-level comments of a discussion, `id` being their database ID.
+async function getDiscussionComments(
+  client: InstanceType<typeof GitHub>,
+  discussion_id: string
+): Promise<IIssueComment[]> {
+  const comments: IIssueComment[] = []
+  try {
+    let after: string | null = null
+    do {
+      const { node }: IDiscussionComments = await client.graphql(
+        `query($id: ID!, $after: String) { node(id: $id) { ... on Discussion { comments(first: 100, after: $after) { nodes { id databaseId body author { login } } pageInfo { hasNextPage endCursor } } } } }`,
+        { id: discussion_id, after }
+      )
+      for (const comment of node.comments.nodes) {
+        comments.push({
+          id: comment.databaseId,
+          node_id: comment.id,
+          body: comment.body,
+          author: comment.author?.login ?? ''
+        })
+      }
+      after = node.comments.pageInfo.hasNextPage
+        ? node.comments.pageInfo.endCursor
+        : null
+    } while (after !== null)
+    core.debug(`Load ${comments.length} comments`)
+  } catch (error) {
+    core.warning(`Unable to load comments. (${error})`)
+  }
+  return comments
+}
+
+// Labels are referenced by node ID, those which do not exist are skipped.
+// Returns the labels added or removed.
+async function setDiscussionLabels(
+  client: InstanceType<typeof GitHub>,
+  discussion_id: string,
+  labels: string[],
+  add: boolean
+): Promise<string[]> {
+  if (dryRun) {
+    recordDryRun(
+      `discussion ${discussion_id}`,
+      add ? 'add labels' : 'remove labels',
+      labels.join(', ')
+    )
+    return labels
+  }
+  try {
+    const labelIds: string[] = []
+    const found: string[] = []
+    for (const name of labels) {
+      const { repository } = await client.graphql<{
+        repository: { label: { id: string } | null }
+      }>(
+        `query($owner: String!, $repo: String!, $name: String!) { repository(owner: $owner, name: $repo) { label(name: $name) { id } } }`,
+        { ...github.context.repo, name }
+      )
+      if (repository.label === null) {
+        reportFailure(`Unable to find label ${name}.`)
+      } else {
+        labelIds.push(repository.label.id)
+        found.push(name)
+      }
+    }
+    if (labelIds.length === 0) {
+      return []
+    }
+    await client.graphql(
+      add
+        ? `mutation($id: ID!, $labelIds: [ID!]!) { addLabelsToLabelable(input: {labelableId: $id, labelIds: $labelIds}) { clientMutationId } }`
+        : `mutation($id: ID!, $labelIds: [ID!]!) { removeLabelsFromLabelable(input: {labelableId: $id, labelIds: $labelIds}) { clientMutationId } }`,
+      { id: discussion_id, labelIds }
+    )
+    core.debug(`${add ? 'Add' : 'Remove'} labels ${found.join(', ')}`)
+    return found
+  } catch (error) {
+    reportFailure(
+      `Unable to ${add ? 'add' : 'remove'} labels ${labels.join(', ')}. (${error})`
+    )
+    return []
+  }
+}
+
+async function addDiscussionComment(
+  client: InstanceType<typeof GitHub>,
+  discussion_id: string,
+  body: string
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`discussion ${discussion_id}`, 'add comment', body)
+    return true
+  }
+  try {
+    await client.graphql(
+      `mutation($id: ID!, $body: String!) { addDiscussionComment(input: {discussionId: $id, body: $body}) { clientMutationId } }`,
+      { id: discussion_id, body }
+    )
+    core.debug(`Add comment \`${body.split('\n').join('\\n')}\``)
+    return true
+  } catch (error) {
+    reportFailure(
+      `Unable to add comment \`${body.split('\n').join('\\n')}\`. (${error})`
+    )
+    return false
+  }
+}
+
+async function updateDiscussion(
+  client: InstanceType<typeof GitHub>,
+  discussion_id: string,
+  body: string
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`discussion ${discussion_id}`, 'update discussion', body)
+    return true
+  }
+  try {
+    await client.graphql(
+      `mutation($id: ID!, $body: String!) { updateDiscussion(input: {discussionId: $id, body: $body}) { clientMutationId } }`,
+      { id: discussion_id, body }
+    )
+    core.debug(`Update discussion \`${body.split('\n').join('\\n')}\``)
+    return true
+  } catch (error) {
+    reportFailure(
+      `Unable to update discussion \`${body.split('\n').join('\\n')}\`. (${error})`
+    )
+    return false
+  }
+}
+
+async function updateDiscussionComment(
+  client: InstanceType<typeof GitHub>,
+  comment_node_id: string,
+  body: string
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`comment ${comment_node_id}`, 'update comment', body)
+    return true
+  }
+  try {
+    await client.graphql(
+      `mutation($id: ID!, $body: String!) { updateDiscussionComment(input: {commentId: $id, body: $body}) { clientMutationId } }`,
+      { id: comment_node_id, body }
+    )
+    core.debug(`Update comment \`${body.split('\n').join('\\n')}\``)
+    return true
+  } catch (error) {
+    reportFailure(
+      `Unable to update comment \`${body.split('\n').join('\\n')}\`. (${error})`
+    )
+    return false
+  }
+}
+
+async function deleteDiscussionComment(
+  client: InstanceType<typeof GitHub>,
+  comment_id: number,
+  comment_node_id: string
+): Promise<boolean> {
+  if (dryRun) {
+    recordDryRun(`comment ${comment_id}`, 'delete comment')
+    return true
+  }
+  try {
+    await client.graphql(
+      `mutation($id: ID!) { deleteDiscussionComment(input: {id: $id}) { clientMutationId } }`,
+      { id: comment_node_id }
+    )
+    core.debug(`Delete comment ${comment_id}`)
+    return true
+  } catch (error) {
+    reportFailure(`Unable to delete comment ${comment_id}. (${error})`)
+    return false
   }
 }
 
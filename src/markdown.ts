@@ -0,0 +1,255 @@
+import { Preprocessor } from './types'
+
+// ``` or ~~~, indented by at most 3 spaces
+const FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})/
+const CLOSING_FENCE_REGEX = /^ {0,3}(`{3,}|~{3,})\s*$/
+
+const QUOTE_REGEX = /^ {0,3}>/
+
+// an unterminated comment runs to the end of the text
+const HTML_COMMENT_REGEX = /<!--[\s\S]*?(?:-->|$)/g
+
+// an ATX heading, `## Title ##`
+const HEADING_REGEX = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/
+
+// the heading of a field of an issue form response
+const FORM_HEADING_REGEX = /^### (.+?)\s*$/
+
+const CHECKBOX_REGEX = /^\s*[-*] \[([ xX])\] (.*?)\s*$/
+
+// the value of an optional field left empty
+const FORM_NO_RESPONSE = '_No response_'
+
+const FRONT_MATTER_REGEX = /^---\r?\n[\s\S]*?\r?\n---\s*(?:\r?\n|$)/
+
+// applied in this order, whatever the order they are given in
+const PREPROCESSORS: {
+  [key in Preprocessor]: (text: string, templates: string[]) => string
+} = {
+  // the lines of the templates are compared before anything is stripped
+  template: stripTemplate,
+  code_blocks: stripCodeBlocks,
+  html_comments: text => text.replace(HTML_COMMENT_REGEX, ''),
+  quotes: stripQuotes,
+  whitespace: normalizeWhitespace,
+  lowercase: text => text.toLowerCase()
+}
+
+// A blank line is kept in place of each code block, so that the paragraphs
+// around it are not joined.
+function stripCodeBlocks(text: string): string {
+  const lines: string[] = []
+  let fence: string | undefined
+  for (const line of text.split('\n')) {
+    if (fence === undefined) {
+      const opening = line.match(FENCE_REGEX)
+      if (opening) {
+        fence = opening[1]
+        lines.push('')
+      } else {
+        lines.push(line)
+      }
+      continue
+    }
+    // closed by a fence of the same character, at least as long
+    const closing = line.match(CLOSING_FENCE_REGEX)
+    if (
+      closing &&
+      closing[1][0] === fence[0] &&
+      closing[1].length >= fence.length
+    ) {
+      fence = undefined
+    }
+  }
+  return lines.join('\n')
+}
+
+// Lines following a quoted line up to a blank line belong to the quote too
+// (lazy continuation lines).
+function stripQuotes(text: string): string {
+  const lines: string[] = []
+  let quoted = false
+  for (const line of text.split('\n')) {
+    if (QUOTE_REGEX.test(line)) {
+      quoted = true
+    } else if (line.trim() === '') {
+      quoted = false
+      lines.push(line)
+    } else if (!quoted) {
+      lines.push(line)
+    }
+  }
+  return lines.join('\n')
+}
+
+// The lines left as they are in the templates, e.g. headings, hints and
+// unchecked boxes. Blank lines are kept.
+function stripTemplate(text: string, templates: string[]): string {
+  const boilerplate: Set<string> = new Set()
+  for (const template of templates) {
+    for (const line of template.replace(FRONT_MATTER_REGEX, '').split('\n')) {
+      if (line.trim() !== '') boilerplate.add(line.trim())
+    }
+  }
+  return text
+    .split('\n')
+    .filter(line => !boilerplate.has(line.trim()))
+    .join('\n')
+}
+
+// Trim the lines, collapse runs of spaces and of blank lines.
+function normalizeWhitespace(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/[^\S\n]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// The text as matched by rules with the given preprocessors. `templates` are
+// the bodies of the issue and pull request templates, for `template`.
+export function preprocessText(
+  text: string,
+  preprocessors: Preprocessor[],
+  templates: string[] = []
+): string {
+  let result = text
+  for (const [name, preprocess] of Object.entries(PREPROCESSORS)) {
+    if (preprocessors.some(x => x === name)) {
+      result = preprocess(result, templates)
+    }
+  }
+  return result
+}
+
+// The value of a field of an issue form response: the checked options of
+// checkboxes joined by `, ` (as the options of multiple-choice dropdowns are),
+// the content of a field rendered as code, or the text as is.
+function parseFormValue(lines: string[]): string {
+  const value = lines.join('\n').trim()
+  if (value === '' || value === FORM_NO_RESPONSE) {
+    return ''
+  }
+  const nonEmpty = value.split('\n').filter(line => line.trim() !== '')
+  const checkboxes = nonEmpty.map(line => line.match(CHECKBOX_REGEX))
+  if (checkboxes.every(x => x !== null)) {
+    return checkboxes
+      .filter(x => x?.[1] !== ' ')
+      .map(x => x?.[2])
+      .join(', ')
+  }
+  const fence = nonEmpty[0].match(FENCE_REGEX)
+  const closing = nonEmpty[nonEmpty.length - 1].match(CLOSING_FENCE_REGEX)
+  if (nonEmpty.length >= 2 && fence && closing?.[1] === fence[1]) {
+    return value
+      .split('\n')
+      .slice(1, -1)
+      .join('\n')
+      .replace(/^\n+|\n+$/g, '')
+  }
+  return value
+}
+
+// The lines of the fields of an issue form response, which renders each field
+// as a `### Label` section, by their labels.
+function splitFormFields(body: string): { [label: string]: string[] } {
+  const fields: { [label: string]: string[] } = {}
+  let label: string | undefined
+  let lines: string[] = []
+  let fence: string | undefined
+  const flush = (): void => {
+    if (label !== undefined && !Object.hasOwn(fields, label)) {
+      fields[label] = lines
+    }
+  }
+  for (const line of body.split(/\r?\n/)) {
+    // headings inside code blocks do not start fields
+    if (fence === undefined) {
+      const heading = line.match(FORM_HEADING_REGEX)
+      if (heading) {
+        flush()
+        label = heading[1]
+        lines = []
+        continue
+      }
+      fence = line.match(FENCE_REGEX)?.[1]
+    } else if (line.match(CLOSING_FENCE_REGEX)?.[1]?.startsWith(fence)) {
+      fence = undefined
+    }
+    lines.push(line)
+  }
+  flush()
+  return fields
+}
+
+// The fields of an issue form response by their labels.
+export function parseFormFields(body: string): { [label: string]: string } {
+  const fields: { [label: string]: string } = {}
+  for (const [label, lines] of Object.entries(splitFormFields(body))) {
+    fields[label] = parseFormValue(lines)
+  }
+  return fields
+}
+
+// The value of the field of the given label, matched case-insensitively.
+export function getFormField<T = string>(
+  fields: { [label: string]: T },
+  label: string
+): T | undefined {
+  const key = Object.keys(fields).find(
+    x => x.toLowerCase() === label.trim().toLowerCase()
+  )
+  return key === undefined ? undefined : fields[key]
+}
+
+// The boxes checked in the field of the given label, 0 if there is no such
+// field. Other fields count as one box once answered: their value cannot tell
+// the options of a dropdown from text that contains `, `.
+export function countFormSelections(body: string, label: string): number {
+  const lines = getFormField(splitFormFields(body), label)
+  if (lines === undefined) {
+    return 0
+  }
+  const text = lines.join('\n')
+  if (text.split('\n').some(line => CHECKBOX_REGEX.test(line))) {
+    return countCheckedBoxes(text)
+  }
+  return parseFormValue(lines) === '' ? 0 : 1
+}
+
+// The text of the section under the heading (case-insensitive), up to the next
+// heading of the same or a higher level, undefined if there is no such heading.
+export function getSection(body: string, heading: string): string | undefined {
+  const title = heading.trim().toLowerCase()
+  let lines: string[] | undefined
+  let level = 0
+  let fence: string | undefined
+  for (const line of body.split(/\r?\n/)) {
+    if (fence === undefined) {
+      const match = line.match(HEADING_REGEX)
+      if (match && lines !== undefined && match[1].length <= level) {
+        break
+      }
+      if (match && lines === undefined) {
+        if ((match[2] ?? '').trim().toLowerCase() === title) {
+          lines = []
+          level = match[1].length
+        }
+        continue
+      }
+      fence = line.match(FENCE_REGEX)?.[1]
+    } else if (line.match(CLOSING_FENCE_REGEX)?.[1]?.startsWith(fence)) {
+      fence = undefined
+    }
+    lines?.push(line)
+  }
+  return lines?.join('\n')
+}
+
+export function countCheckedBoxes(text: string): number {
+  return text.split('\n').filter(line => {
+    const checkbox = line.match(CHECKBOX_REGEX)
+    return checkbox !== null && checkbox[1] !== ' '
+  }).length
+}
@@ -0,0 +1,211 @@
+import { WebhookPayload } from '@actions/github/lib/interfaces'
+import {
+  IIssuePlan,
+  IRepository,
+  formatIssueReference,
+  getIssueReferences,
+  issueRuleAnalyze,
+  pushRuleAnalyze
+} from './analyze'
+import { IChangedFile, IConfig, IEventInfo, ModeEvent } from './types'
+
+// Webhook payloads do not carry the event name, guess it from their shape.
+export function guessEventName(payload: WebhookPayload): string {
+  if (payload.comment && payload.issue) return 'issue_comment'
+  if (payload.comment && payload.discussion) return 'discussion_comment'
+  if (payload.comment && payload.pull_request) {
+    return 'pull_request_review_comment'
+  }
+  if (payload.review && payload.pull_request) return 'pull_request_review'
+  if (payload.discussion) return 'discussion'
+  if (payload.pull_request) return 'pull_request'
+  if (payload.issue) return 'issues'
+  if (Array.isArray(payload.commits)) return 'push'
+  throw Error(`cannot deduce the event name from the payload, use --event`)
+}
+
+export function parseLabelNames(labels: unknown): Set<string> {
+  if (!Array.isArray(labels)) {
+    throw Error(`labels should be an array of names or label objects`)
+  }
+  const names: Set<string> = new Set()
+  for (const label of labels) {
+    if (typeof label === 'string') {
+      names.add(label)
+    } else if (
+      label !== null &&
+      typeof label === 'object' &&
+      typeof label.name === 'string'
+    ) {
+      names.add(label.name)
+    } else {
+      throw Error(`found unexpected label \`${JSON.stringify(label)}\``)
+    }
+  }
+  return names
+}
+
+export function parseCommitMessages(commits: unknown): string[] {
+  if (!Array.isArray(commits)) {
+    throw Error(`commits should be an array of messages or commit objects`)
+  }
+  return commits.map(commit => {
+    if (typeof commit === 'string') return commit
+    // a commit of the REST API or of a push payload
+    const message = commit?.commit?.message ?? commit?.message
+    if (typeof message !== 'string') {
+      throw Error(`found unexpected commit \`${JSON.stringify(commit)}\``)
+    }
+    return message
+  })
+}
+
+export function parseChangedFiles(files: unknown): IChangedFile[] {
+  if (!Array.isArray(files)) {
+    throw Error(`files should be an array of filenames or file objects`)
+  }
+  return files.map(file => {
+    if (typeof file === 'string') return { filename: file, status: 'modified' }
+    // a file of the REST API
+    if (typeof file?.filename !== 'string') {
+      throw Error(`found unexpected file \`${JSON.stringify(file)}\``)
+    }
+    return {
+      filename: file.filename,
+      status: file.status ?? 'modified',
+      previous_filename: file.previous_filename
+    }
+  })
+}
+
+export function parseTeamMembers(teams: unknown): { [team: string]: string[] } {
+  if (
+    teams === null ||
+    typeof teams !== 'object' ||
+    Array.isArray(teams) ||
+    !Object.values(teams).every(
+      logins =>
+        Array.isArray(logins) && logins.every(x => typeof x === 'string')
+    )
+  ) {
+    throw Error(`teams should be an object of \`org/team\` to arrays of logins`)
+  }
+  return teams as { [team: string]: string[] }
+}
+
+// The repository of the payload, or a placeholder if the payload has none.
+export function getRepository(payload: WebhookPayload): IRepository {
+  return {
+    owner: payload.repository?.owner.login ?? 'owner',
+    repo: payload.repository?.name ?? 'repo'
+  }
+}
+
+export function formatPlan(plan: IIssuePlan, repo: IRepository): string {
+  const issue = formatIssueReference(
+    { ...(plan.repo ?? repo), issue_number: plan.issue_number },
+    repo
+  )
+  const lines: string[] = [
+    plan.discussion_id !== undefined
+      ? `Discussion #${plan.issue_number}`
+      : `Issue ${issue}`
+  ]
+  if (plan.matchedRules.length > 0) {
+    lines[0] += ` (matched ${plan.matchedRules.join(', ')})`
+  }
+  const indent = (text: string): string =>
+    text
+      .split('\n')
+      .map(line => (line ? `    ${line}` : line))
+      .join('\n')
+
+  for (const label of plan.addLabels) lines.push(`  + label ${label}`)
+  for (const label of plan.removeLabels) lines.push(`  - label ${label}`)
+  for (const comment of plan.addComments) {
+    lines.push(
+      comment.existing === 'update'
+        ? `  + comment (or update the earlier one)`
+        : `  + comment (unless posted earlier)`,
+      indent(comment.body)
+    )
+  }
+  for (const { marker, action } of plan.hideComments) {
+    lines.push(`  - ${action} comment ${marker}`)
+  }
+  for (const body of plan.updateItems) {
+    lines.push(
+      plan.comment_id === undefined
+        ? `  ~ ${plan.discussion_id !== undefined ? 'discussion' : 'issue'} body`
+        : plan.comment_event === 'pull_request_review'
+          ? `  ~ review ${plan.comment_id}`
+          : `  ~ comment ${plan.comment_id}`,
+      indent(body)
+    )
+  }
+  for (const login of plan.addAssignees) lines.push(`  + assignee ${login}`)
+  for (const login of plan.requestReviewers) {
+    lines.push(`  + reviewer ${login}`)
+  }
+  if (plan.milestone !== undefined) {
+    lines.push(`  ~ milestone ${plan.milestone}`)
+  }
+  if (plan.state !== undefined) {
+    lines.push(
+      `  ~ state ${plan.state}` +
+        (plan.state_reason ? ` (${plan.state_reason})` : '')
+    )
+  }
+  if (plan.lock !== undefined) {
+    lines.push(`  ~ lock` + (plan.lock === true ? '' : ` (${plan.lock})`))
+  }
+  if (plan.draft !== undefined) {
+    lines.push(plan.draft ? '  ~ draft' : '  ~ ready for review')
+  }
+  if (lines.length === 1) lines.push('  (nothing to do)')
+  return lines.join('\n')
+}
+
+// The plans of the rules for an event, with notes on the issue references of
+// a push.
+export function replayEvent(
+  config: IConfig,
+  event_name: ModeEvent,
+  eventInfo: IEventInfo,
+  issueLabels: Set<string>,
+  repo: IRepository,
+  includeTitle: number,
+  syncLabels: number
+): { plans: IIssuePlan[]; notes: string[] } {
+  const notes: string[] = []
+  if (event_name === 'push') {
+    const references = getIssueReferences(eventInfo, config.push, repo)
+    for (const reference of references) {
+      notes.push(
+        `Reference ${formatIssueReference(reference, repo)} by \`${reference.keyword}\`` +
+          (reference.skipped ? ` skipped: ${reference.skipped}` : '')
+      )
+    }
+    return {
+      plans: pushRuleAnalyze(references, config.push, eventInfo, repo),
+      notes
+    }
+  }
+  return {
+    plans: [
+      issueRuleAnalyze(
+        config.labels,
+        config.comments,
+        config.actions,
+        config.checks,
+        eventInfo,
+        event_name,
+        issueLabels,
+        includeTitle,
+        syncLabels,
+        config.directives
+      )
+    ],
+    notes
+  }
+}
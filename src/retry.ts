@@ -0,0 +1,104 @@
+import * as core from '@actions/core'
+import { GitHub } from '@actions/github/lib/utils'
+
+// rate limits lasting longer than this (in seconds) are not waited for
+const MAX_RATE_LIMIT_WAIT = 600
+const MAX_RETRIES = 3
+// seconds before retrying a request failed with a server error, doubled on
+// each attempt
+const SERVER_ERROR_WAIT = 2
+
+// the method, the URL and the parameters of a request
+export interface IRequestOptions {
+  method: string
+  url: string
+  [key: string]: unknown
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+// The seconds to wait before retrying a request that hit a rate limit,
+// undefined if the error is not about rate limits.
+export function getRateLimitWait(error: unknown): number | undefined {
+  const { status, message, response } = error as {
+    status?: number
+    message?: string
+    response?: { headers?: { [key: string]: string | undefined } }
+  }
+  if (status !== 403 && status !== 429) {
+    return undefined
+  }
+  const headers = response?.headers ?? {}
+  if (headers['retry-after'] !== undefined) {
+    return parseInt(headers['retry-after'])
+  }
+  if (headers['x-ratelimit-remaining'] === '0') {
+    const reset = parseInt(headers['x-ratelimit-reset'] ?? '')
+    return isNaN(reset) ? 60 : Math.max(reset - Date.now() / 1000, 1)
+  }
+  return /secondary rate limit/i.test(message ?? '') ? 60 : undefined
+}
+
+// Whether the request only reads. A server error does not tell whether the
+// change of another request was made, retrying it could make it twice (e.g.
+// post the same comment twice).
+export function isReadRequest(options: IRequestOptions): boolean {
+  if (options.method === 'GET' || options.method === 'HEAD') {
+    return true
+  }
+  return (
+    options.url === '/graphql' &&
+    typeof options.query === 'string' &&
+    !/^\s*mutation\b/.test(options.query)
+  )
+}
+
+// The seconds to wait before retrying a request failed with `error` on its
+// `attempt` (from 1), undefined if it should fail.
+export function getRetryWait(
+  error: unknown,
+  options: IRequestOptions,
+  attempt: number
+): number | undefined {
+  if (attempt > MAX_RETRIES) {
+    return undefined
+  }
+  // network errors have a status of 500 too
+  const { status } = error as { status?: number }
+  if (status !== undefined && status >= 500) {
+    return isReadRequest(options)
+      ? SERVER_ERROR_WAIT * 2 ** (attempt - 1)
+      : undefined
+  }
+  // a request over the rate limit is refused, and made nothing
+  const wait = getRateLimitWait(error)
+  return wait === undefined || wait > MAX_RATE_LIMIT_WAIT ? undefined : wait
+}
+
+// Wait and retry the requests hitting a rate limit, or the reads hitting a
+// server error, instead of failing them, so that a long run like a backfill
+// does not stop halfway. Every request goes through here, those of the
+// GraphQL API included.
+export function handleRetries(client: InstanceType<typeof GitHub>): void {
+  client.hook.wrap('request', async (request, options) => {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await request(options)
+      } catch (error) {
+        const wait = getRetryWait(error, options, attempt)
+        if (wait === undefined) {
+          throw error
+        }
+        const { status } = error as { status?: number }
+        core.warning(
+          status !== undefined && status >= 500
+            ? `Server error ${status} on ${options.method} ${options.url}, retrying in ${wait}s.`
+            : `Rate limit hit by ${options.method} ${options.url}, retrying in ${Math.ceil(wait)}s.`
+        )
+        await sleep(wait * 1000)
+      }
+    }
+  })
+}
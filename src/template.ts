@@ -0,0 +1,212 @@
+import { getFormField } from './markdown'
+
+export interface ITemplateContext {
+  // the issue/comment body
+  body: string
+  title: string
+  // the login of the issue/comment author
+  author: string
+  issue_number: number
+  event_name: string
+  // the labels currently on the issue
+  labels: string[]
+  // additional variables, e.g. of the commit on push events
+  variables?: { [name: string]: string }
+  // the fields of the issue form response, ${field.<label>}
+  fields?: { [label: string]: string }
+}
+
+// ${name}, ${i,j} or ${name | filter | ...}; $${...} renders as a literal ${...}
+const TEMPLATE_REGEX = /\$(\$?)\{([^{}]*)\}/g
+
+const INDEXED_VARIABLE_REGEX = /^(\d+)\s*,\s*(\d+)$/
+
+const FIELD_VARIABLE_PREFIX = 'field.'
+
+const HTML_ENTITIES: { [key: string]: string } = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+}
+
+const TEMPLATE_FILTERS: { [key: string]: (value: string) => string } = {
+  lower: value => value.toLowerCase(),
+  upper: value => value.toUpperCase(),
+  trim: value => value.trim(),
+  // escape for use inside a JSON/YAML double-quoted string
+  json: value => JSON.stringify(value).slice(1, -1),
+  url: value => encodeURIComponent(value),
+  html: value => escapeHtml(value),
+  markdown: value => value.replace(/[\\`*_{}[\]()#+\-.!|<>~]/g, '\\$&'),
+  quote: value =>
+    value
+      .split('\n')
+      .map(line => `> ${line}`)
+      .join('\n'),
+  code: value => {
+    // use a backtick fence longer than any backtick run inside the value
+    const longest = Math.max(
+      0,
+      ...(value.match(/`+/g) ?? []).map(ticks => ticks.length)
+    )
+    const fence = '`'.repeat(longest + 1)
+    const padding = value.startsWith('`') || value.endsWith('`') ? ' ' : ''
+    return `${fence}${padding}${value}${padding}${fence}`
+  }
+}
+
+function parseTemplateExpression(expression: string): {
+  name: string
+  filters: string[]
+} {
+  const [name, ...filters] = expression.split('|').map(x => x.trim())
+  for (const filter of filters) {
+    if (!(filter in TEMPLATE_FILTERS)) {
+      throw Error(`found unexpected template filter \`${filter}\``)
+    }
+  }
+  return { name, filters }
+}
+
+function applyFilters(value: string, filters: string[]): string {
+  return filters.reduce((x, filter) => TEMPLATE_FILTERS[filter](x), value)
+}
+
+function resolveVariable(
+  name: string,
+  context: ITemplateContext,
+  matches: RegExpMatchArray[]
+): string | undefined {
+  // ${i,j} -> the j-th capture group of the i-th regex
+  const indexed = name.match(INDEXED_VARIABLE_REGEX)
+  if (indexed) {
+    return matches[parseInt(indexed[1])]?.[parseInt(indexed[2])] ?? ''
+  }
+
+  switch (name) {
+    case 'body':
+      return context.body
+    case 'title':
+      return context.title
+    case 'author':
+      return context.author
+    case 'issue_number':
+      return `${context.issue_number}`
+    case 'event_name':
+      return context.event_name
+    case 'labels':
+      return context.labels.join(', ')
+  }
+
+  if (context.variables && Object.hasOwn(context.variables, name)) {
+    return context.variables[name]
+  }
+
+  // fields missing from the response are empty
+  if (name.startsWith(FIELD_VARIABLE_PREFIX)) {
+    return (
+      getFormField(
+        context.fields ?? {},
+        name.slice(FIELD_VARIABLE_PREFIX.length)
+      ) ?? ''
+    )
+  }
+
+  // named capture groups, the first regex defining the group wins
+  for (const match of matches) {
+    if (match.groups && name in match.groups) {
+      return match.groups[name] ?? ''
+    }
+  }
+
+  // unknown variables are kept as is
+  return undefined
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => HTML_ENTITIES[c])
+}
+
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Throw if the template uses an unknown filter.
+export function checkTemplate(template: string): void {
+  for (const match of template.matchAll(TEMPLATE_REGEX)) {
+    if (!match[1]) parseTemplateExpression(match[2])
+  }
+}
+
+export function isTemplate(template: string): boolean {
+  return template.match(TEMPLATE_REGEX) !== null
+}
+
+export function renderTemplate(
+  template: string,
+  context: ITemplateContext,
+  matches: RegExpMatchArray[] = []
+): string {
+  return template.replace(
+    TEMPLATE_REGEX,
+    (placeholder: string, escaped: string, expression: string) => {
+      if (escaped) {
+        return placeholder.slice(1)
+      }
+      const { name, filters } = parseTemplateExpression(expression)
+      const value = resolveVariable(name, context, matches)
+      return value === undefined ? placeholder : applyFilters(value, filters)
+    }
+  )
+}
+
+// Render the given variables only, keeping the other placeholders (and the
+// escaped ones) to be rendered later.
+export function renderVariables(
+  template: string,
+  variables: { [name: string]: string }
+): string {
+  return template.replace(
+    TEMPLATE_REGEX,
+    (placeholder: string, escaped: string, expression: string) => {
+      if (escaped) {
+        return placeholder
+      }
+      const { name, filters } = parseTemplateExpression(expression)
+      return Object.hasOwn(variables, name)
+        ? applyFilters(variables[name], filters)
+        : placeholder
+    }
+  )
+}
+
+// Build a regex matching every string the template could be rendered to
+// with the given context, capture groups being unknown, and every variable
+// without a context.
+export function templateToRegExp(
+  template: string,
+  context?: ITemplateContext
+): RegExp {
+  let source = ''
+  let lastIndex = 0
+  for (const match of template.matchAll(TEMPLATE_REGEX)) {
+    const index = match.index ?? 0
+    source += escapeRegExp(template.slice(lastIndex, index))
+    lastIndex = index + match[0].length
+    if (match[1]) {
+      source += escapeRegExp(match[0].slice(1))
+      continue
+    }
+    const { name, filters } = parseTemplateExpression(match[2])
+    const value =
+      context === undefined || INDEXED_VARIABLE_REGEX.test(name)
+        ? undefined
+        : resolveVariable(name, context, [])
+    source +=
+      value === undefined ? '.*' : escapeRegExp(applyFilters(value, filters))
+  }
+  source += escapeRegExp(template.slice(lastIndex))
+  return new RegExp(`^${source}$`)
+}
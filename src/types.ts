@@ -0,0 +1,383 @@
+export type ModeEvent =
+  | 'pull_request'
+  | 'pull_request_target'
+  | 'issues'
+  | 'issue_comment'
+  | 'push'
+  | 'discussion'
+  | 'discussion_comment'
+  | 'pull_request_review'
+  | 'pull_request_review_comment'
+
+// the events triggered by a comment (or a review) on an issue, a pull request or a discussion
+export type CommentEvent =
+  | 'issue_comment'
+  | 'discussion_comment'
+  | 'pull_request_review'
+  | 'pull_request_review_comment'
+
+// the fields of an event that rules can be matched against
+export type MatchTarget =
+  | 'title'
+  // the body of the issue, pull request or comment that triggered the event
+  | 'body'
+  // the body of the issue or pull request, also on issue_comment events
+  | 'issue_body'
+  // the body of the comment (or review) on comment events
+  | 'comment'
+  | 'head_branch'
+  | 'base_branch'
+  | 'commits'
+
+// the transformations of the text of the targets before rules are matched
+// against it, see `preprocessText`
+export type Preprocessor =
+  // strip the lines left as they are in the issue and pull request templates
+  | 'template'
+  // strip fenced code blocks
+  | 'code_blocks'
+  | 'html_comments'
+  // strip block quotes
+  | 'quotes'
+  // trim the lines, collapse runs of spaces and of blank lines
+  | 'whitespace'
+  | 'lowercase'
+
+export interface ILabelMode {
+  // if matched && (~ === true || the triggered event in ~) => add
+  add: ModeEvent[] | true
+
+  // if not matched && (~ === true || the triggered event in ~) => remove
+  remove: ModeEvent[] | true
+}
+
+export interface ICommentMode {
+  // add: add comment, update: update issue or comment
+  type: 'add' | 'update'
+
+  // if matched && (~ === true || the triggered event in ~) => add or update
+  event: ModeEvent[] | true
+
+  // for `add`, what to do with the comment of an earlier run if matched again
+  existing: 'keep' | 'update'
+
+  // for `add`, what to do with the comment of an earlier run if not matched
+  unmatched: 'keep' | 'delete' | 'minimize'
+
+  // for `update`, how the content is put into the issue or comment body
+  //     replace: the content is the new body
+  //     append, prepend: the content is put in a section at the end or the start,
+  //         replacing the section of an earlier run
+  //     replace-section: the content replaces an existing section
+  update: UpdateMode
+
+  // the name of the section, the name of the rule if not provided
+  section?: string
+}
+
+export type UpdateMode = 'replace' | 'append' | 'prepend' | 'replace-section'
+
+export interface IRuleBase {
+  [key: string]: unknown
+
+  // the representation of the rule
+  name: string
+
+  // the content of the rule
+  //     for labels, it's the label name
+  //     for comments, it's the comment body
+  // may reference capture groups and context variables, see `renderTemplate`
+  // if not provided (=== undefined), use `name` as the content
+  // if === '', not add label
+  content?: string
+
+  // the regexes to match the issue/comment body
+  regexes: string[]
+
+  // the author association to match
+  author_association: string[]
+
+  // the condition to match, in addition to `regexes` and `author_association`
+  when?: ICondition
+
+  // the fields `regexes` and `when` are matched against, joined by blank lines
+  // if not provided, the body (and the title of labels if `include-title` is set)
+  targets?: MatchTarget[]
+
+  // applied to the text of each target, the top-level `preprocess` if not provided
+  preprocess?: Preprocessor[]
+
+  // if some item in skip_if has been added, skip current item
+  skip_if: string[]
+}
+
+export type ICondition =
+  // every condition matches
+  | { type: 'all'; conditions: ICondition[] }
+  // some condition matches
+  | { type: 'any'; conditions: ICondition[] }
+  | { type: 'not'; condition: ICondition }
+  // the regex matches the issue/comment body
+  | { type: 'regex'; regex: string }
+  // the regex matches the author association
+  | { type: 'author_association'; regex: string }
+  // the field of the issue form response of the given label
+  //     equals: the value is the string
+  //     regex: the regex matches the value
+  //     in: some of the values separated by `, ` (checked boxes, selected
+  //         options) is one of the strings
+  | {
+      type: 'field'
+      field: string
+      match: 'equals' | 'in'
+      values: string[]
+    }
+  | { type: 'field'; field: string; match: 'regex'; regex: string }
+  // any: some changed file matches some glob
+  // all: every changed file matches some glob
+  // only files of the given statuses are considered if `status` is provided
+  | {
+      type: 'files'
+      match: 'any' | 'all'
+      globs: string[]
+      status?: FileStatus[]
+    }
+  | IAuthorCondition
+
+// the author of the event (the commenter on comment events, the pusher on push
+// events), of the issue, or of the commit referencing the issue on push events
+export type AuthorRole = 'author' | 'issue_author' | 'commit_author'
+
+export interface IAuthorInfo {
+  login: string
+  // '' if unknown
+  association: string
+  bot: boolean
+}
+
+export type IAuthors = { [role in AuthorRole]?: IAuthorInfo }
+
+// The author of the role matches every field provided, and does not match if
+// the event has no such author.
+export interface IAuthorCondition {
+  type: 'author'
+  role: AuthorRole
+  // logins or globs, the author must match some of `login` and none of `not_login`
+  login?: string[]
+  not_login?: string[]
+  // `org/team`, the author must be a member of some of them
+  team?: string[]
+  bot?: boolean
+  // whether the author association is FIRST_TIMER or FIRST_TIME_CONTRIBUTOR
+  first_time?: boolean
+  // a regex to match the author association
+  association?: string
+}
+
+export type FileStatus =
+  | 'added'
+  | 'removed'
+  | 'modified'
+  | 'renamed'
+  | 'copied'
+  | 'changed'
+  | 'unchanged'
+
+// a file changed by a pull request
+export interface IChangedFile {
+  filename: string
+  status: FileStatus
+  // set for renamed files
+  previous_filename?: string
+}
+
+// what conditions are checked against
+export interface IConditionInput {
+  body: string
+  author_association: string
+  files: IChangedFile[]
+  fields: { [label: string]: string }
+  authors: IAuthors
+  // the members of the teams, among the authors of the event
+  team_members: { [team: string]: string[] }
+}
+
+export interface ILabelRule extends IRuleBase {
+  mode: ILabelMode
+
+  // if some item in remove_if has been added, remove current item, higher priority than mode.remove
+  remove_if: string[]
+}
+
+export interface ICommentRule extends IRuleBase {
+  mode: ICommentMode
+}
+
+export interface IActionMode {
+  // if matched && (~ === true || the triggered event in ~) => apply the actions
+  event: ModeEvent[] | true
+}
+
+export type StateReason = 'completed' | 'not_planned'
+
+export type LockReason = 'off-topic' | 'too heated' | 'resolved' | 'spam'
+
+// `content` is not used, the actions may reference capture groups and context
+// variables like `content` does
+export interface IActionRule extends IRuleBase {
+  mode: IActionMode
+
+  // the logins to assign
+  assignees: string[]
+
+  // the logins, or `org/team`, to request a review from, for pull requests only
+  reviewers: string[]
+
+  // the title of the milestone to set
+  milestone?: string
+
+  state?: IssueState
+  state_reason?: StateReason
+
+  // true to lock without a reason
+  lock?: LockReason | true
+
+  // true to convert the pull request to a draft, false to mark it ready for review
+  draft?: boolean
+}
+
+// a part of the body that a check requires
+export interface ICheckRequirement {
+  // the section under the heading, or the field of the issue form response,
+  // the whole body if neither is provided
+  heading?: string
+  field?: string
+
+  // the minimum length of the preprocessed text, trimmed
+  min_length: number
+
+  // the minimum number of checked boxes, other fields counting as one once
+  // answered
+  checked: number
+
+  // the item of the checklist, generated if not provided
+  message?: string
+}
+
+// Checks that the issue body satisfies the requirements if the rule matches.
+// `content` is the text before the checklist of what is missing, no comment
+// is posted if === ''.
+export interface ICheckRule extends IRuleBase {
+  mode: IActionMode
+
+  requirements: ICheckRequirement[]
+
+  // added while some requirement is missing, and removed once all are
+  // satisfied; none if === ''
+  label: string
+}
+
+export interface IPushConfig {
+  // the closing keywords referencing issues in commit messages, case-insensitive
+  keywords: string[]
+
+  // the condition the commits referencing issues must match, the issue being
+  // skipped otherwise
+  when?: ICondition
+
+  // the labels to add to or remove from the referenced issues
+  add_labels: string[]
+  remove_labels: string[]
+
+  // globs of the branches whose pushes are handled, all branches if empty
+  branches: string[]
+
+  // whether `owner/repo#123` references to other repositories are honored
+  cross_repository: boolean
+
+  // the template of the comment posted on the referenced issues, none if undefined
+  comment?: string
+
+  // the state and the milestone (title) to set on the referenced issues
+  state?: IssueState
+  milestone?: string
+}
+
+export type IssueState = 'open' | 'closed'
+
+export interface ICommitInfo {
+  sha: string
+  message: string
+  // the login of the commit author, empty if their email is not that of a
+  // GitHub account
+  author: string
+  // the name of the commit author, as in git
+  author_name: string
+  url: string
+}
+
+export interface ILabelDefinition {
+  name: string
+  // 6 hexadecimal digits, without `#`
+  color?: string
+  description?: string
+  // the former names of the label, renamed to `name`
+  aliases: string[]
+}
+
+export interface IDirectiveConfig {
+  // a regex with the named groups `action` (`skip` or `remove`) and `label`
+  syntax: string
+  // the author associations allowed to use directives, all if empty, those
+  // with write access by default
+  author_association: string[]
+}
+
+export interface IConfig {
+  labels: ILabelRule[]
+  comments: ICommentRule[]
+  actions: IActionRule[]
+  checks: ICheckRule[]
+  push: IPushConfig
+  label_definitions: ILabelDefinition[]
+  // directives are ignored if undefined
+  directives?: IDirectiveConfig
+}
+
+export interface IEventInfo {
+  event_name: string
+  issue_number: number // NaN for push event
+  comment_id?: number
+  // the GraphQL node IDs of the discussion and of the comment, for discussion events
+  discussion_id?: string
+  comment_node_id?: string
+  // whether the issue is a pull request
+  is_pull_request: boolean
+  title: string
+  body: string
+  issue_body: string
+  // the fields of the issue form response in `issue_body`, by their labels
+  fields: { [label: string]: string }
+  comment_body: string
+  head_branch: string
+  base_branch: string
+  commit_messages: string[]
+  // for push event only
+  commits: ICommitInfo[]
+  compare_url: string
+  // fetched for pull requests only when some rule has a `files` condition
+  changed_files: IChangedFile[]
+  // the issue and pull request templates of the repository, fetched only when
+  // some rule strips the `template`
+  templates: string[]
+  created_at: string
+  author: string
+  author_association: string
+  // that of the issue author, on comment and review events
+  issue_author_association: string
+  // the author of the event and that of the issue, the pusher on push events
+  authors: IAuthors
+  // the members of the teams referenced by conditions, among the authors of
+  // the event (and of the commits on push events); fetched only if any
+  team_members: { [team: string]: string[] }
+}
@@ -0,0 +1,70 @@
+import * as core from '@actions/core'
+import { parseArgs } from 'util'
+import { ConfigError, loadConfig, readLocalConfig } from './config'
+
+const USAGE = `Usage: npm run validate-config -- [options] <file>...
+
+Check that issue-checker configuration files are valid.
+
+Options:
+      --sync-labels <0|1>  same as the \`sync-labels\` input (default 1)
+  -h, --help               show this message
+`
+
+async function validate(file: string, syncLabels: number): Promise<boolean> {
+  try {
+    await loadConfig({ path: file }, readLocalConfig, syncLabels)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    // errors of extended files are not located in this one
+    const located = error instanceof ConfigError && error.file === file
+    if (process.env.GITHUB_ACTIONS === 'true') {
+      // annotate the file in pull requests
+      core.error(message, {
+        title: 'Invalid issue-checker configuration',
+        file,
+        startLine: located ? error.line : undefined,
+        startColumn: located ? error.column : undefined
+      })
+    } else {
+      process.stderr.write(`${file}: ${message}\n`)
+    }
+    return false
+  }
+  process.stdout.write(`${file}: OK\n`)
+  return true
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'sync-labels': { type: 'string', default: '1' },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  })
+
+  if (values.help) {
+    process.stdout.write(USAGE)
+    return
+  }
+  if (positionals.length === 0) {
+    throw Error(`no configuration file is given\n\n${USAGE}`)
+  }
+
+  const syncLabels = parseInt(values['sync-labels'] ?? '1')
+  let valid = true
+  for (const file of positionals) {
+    valid = (await validate(file, syncLabels)) && valid
+  }
+  if (!valid) {
+    process.exitCode = 1
+  }
+}
+
+main().catch(error => {
+  process.stderr.write(
+    `${error instanceof Error ? error.message : String(error)}\n`
+  )
+  process.exitCode = 1
+})